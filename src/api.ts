@@ -0,0 +1,202 @@
+import path from "path";
+import fs from "fs-extra";
+import {
+  AUTH_STRATEGIES,
+  ProjectOptions,
+  VALIDATION_LIBRARIES,
+} from "./types/project.js";
+import {
+  DATABASE_ORMS,
+  formatAllowed,
+  REQUIRED_PROJECT_OPTIONS,
+  resolveFeatureOptions,
+  validateProjectOptions,
+} from "./utils/options.js";
+import { buildProjectTree, readEnvSecrets } from "./utils/generator.js";
+import { readCreatedAt } from "./utils/manifest.js";
+import { FileChange, FileTree, writeProjectFiles } from "./utils/files.js";
+
+/**
+ * Receives the progress messages and warnings of a generation
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+/**
+ * Options of a programmatic generation
+ */
+export interface GenerateOptions {
+  /** Directory of the project, `<cwd>/<name>` by default */
+  outDir?: string;
+  /** Only report the files that would be written, without writing them */
+  dryRun?: boolean;
+  /** Keep ("skip", the default) or replace existing files with other content */
+  onConflict?: "skip" | "overwrite";
+  /** Receives progress messages and warnings, nothing is logged without it */
+  logger?: Logger;
+}
+
+/**
+ * Outcome of a programmatic generation
+ */
+export interface GenerateResult {
+  /** Absolute path of the project directory */
+  projectDir: string;
+  /** The options the project was generated with, defaults included */
+  options: ProjectOptions;
+  /** Every generated file, and what happened (or would happen) to it */
+  files: FileChange[];
+  /**
+   * The generated files with their content and the directories, as rendered
+   * in memory, e.g. to preview or compare them
+   */
+  tree: FileTree;
+  /** Dependencies of the generated package.json */
+  dependencies: Record<string, string>;
+  /** Dev dependencies of the generated package.json */
+  devDependencies: Record<string, string>;
+  /** Options that were ignored or defaulted, and existing files that were kept */
+  warnings: string[];
+}
+
+/**
+ * Validate project options given by a caller and complete them the way the
+ * CLI does with --yes, reporting what was ignored or defaulted
+ */
+async function resolveProjectOptions(
+  raw: ProjectOptions,
+  warn: (message: string) => void
+): Promise<ProjectOptions> {
+  const validated = validateProjectOptions(raw, "Project options");
+
+  const missing = REQUIRED_PROJECT_OPTIONS.filter(
+    (key) => validated[key] === undefined
+  );
+  if (missing.length > 0) {
+    throw new Error(`Project options are missing ${missing.join(", ")}.`);
+  }
+
+  const { name, language, framework, database, orm } =
+    validated as ProjectOptions;
+
+  if (!DATABASE_ORMS[database].includes(orm)) {
+    throw new Error(
+      `ORM "${orm}" cannot be used with database "${database}". Allowed values: ${formatAllowed(
+        DATABASE_ORMS[database]
+      )}.`
+    );
+  }
+
+  const { features, validationLibrary, authStrategy } =
+    await resolveFeatureOptions(
+      validated as ProjectOptions,
+      {
+        validationLibrary: async () => {
+          warn(
+            `No validation library given, using ${VALIDATION_LIBRARIES[0]}.`
+          );
+          return VALIDATION_LIBRARIES[0];
+        },
+        authStrategy: async () => {
+          warn(`No auth strategy given, using ${AUTH_STRATEGIES[0]}.`);
+          return AUTH_STRATEGIES[0];
+        },
+      },
+      warn
+    );
+
+  return {
+    name,
+    language,
+    framework,
+    database,
+    orm,
+    features,
+    validationLibrary,
+    authStrategy,
+    templates: validated.templates && path.resolve(validated.templates),
+    openapi: validated.openapi && path.resolve(validated.openapi),
+    registry: validated.registry,
+    packageManager: validated.packageManager,
+  };
+}
+
+/**
+ * Generate a project without prompting, exiting or printing anything. Errors
+ * (invalid options, a missing templates directory, an invalid OpenAPI
+ * document, a failed write) are thrown, and nothing is written when they
+ * happen.
+ * @param options The project configuration options
+ * @param generateOptions Where and how to write the project
+ * @returns The generated files, dependencies and warnings
+ */
+export async function generate(
+  options: ProjectOptions,
+  generateOptions: GenerateOptions = {}
+): Promise<GenerateResult> {
+  const { dryRun = false, onConflict = "skip", logger } = generateOptions;
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    warnings.push(message);
+    logger?.warn(message);
+  };
+
+  // The other policies prompt in the terminal
+  if (onConflict !== "skip" && onConflict !== "overwrite") {
+    throw new Error(
+      `Invalid onConflict "${String(onConflict)}". Allowed values: skip, overwrite.`
+    );
+  }
+
+  const projectOptions = await resolveProjectOptions(options, warn);
+  if (
+    projectOptions.templates &&
+    !(await fs.pathExists(projectOptions.templates))
+  ) {
+    throw new Error(
+      `Templates directory ${projectOptions.templates} does not exist.`
+    );
+  }
+
+  const projectDir = path.resolve(
+    generateOptions.outDir ?? projectOptions.name
+  );
+  logger?.info(`Generating ${projectOptions.name} in ${projectDir}`);
+
+  // A project generated before keeps the time recorded in its manifest and
+  // the secrets of its .env file
+  const tree = await buildProjectTree(
+    projectOptions,
+    await readCreatedAt(projectDir),
+    await readEnvSecrets(projectDir)
+  );
+  const { dependencies, devDependencies } = JSON.parse(
+    tree.files["package.json"]
+  );
+  const files = await writeProjectFiles(projectDir, tree, {
+    dryRun,
+    onConflict,
+  });
+
+  files
+    .filter((file) => file.action === "skip")
+    .forEach((file) => warn(`Kept ${file.path}, which has other content.`));
+
+  logger?.info(
+    dryRun
+      ? `Dry run, ${files.length} files would be generated`
+      : `Generated ${files.length} files`
+  );
+
+  return {
+    projectDir,
+    options: projectOptions,
+    files,
+    tree,
+    dependencies,
+    devDependencies,
+    warnings,
+  };
+}
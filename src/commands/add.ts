@@ -0,0 +1,207 @@
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+import { buildProjectTree, readEnvSecrets } from "../utils/generator.js";
+import { commitFileTree, createFileTree, renderDiff } from "../utils/files.js";
+import {
+  createManifest,
+  getCreatedAt,
+  hashContent,
+  MANIFEST_FILE,
+  readManifest,
+  renderManifest,
+} from "../utils/manifest.js";
+import {
+  mergeEnvFile,
+  mergeGeneratedChanges,
+  mergePackageJson,
+} from "../utils/merge.js";
+import { resolveFeatureOptions } from "../utils/options.js";
+import { detectProjectOptions } from "../utils/project.js";
+import { getInstallCommand } from "../utils/packageManager.js";
+import { promptFeatureOptions } from "./create.js";
+import {
+  AuthStrategy,
+  Feature,
+  ProjectOptions,
+  ValidationLibrary,
+} from "../types/project.js";
+
+/**
+ * Options accepted by the add command
+ */
+export interface AddFeatureOptions {
+  validationLibrary?: ValidationLibrary;
+  authStrategy?: AuthStrategy;
+  /** Use defaults for every answer that is not provided */
+  yes?: boolean;
+}
+
+/**
+ * Merge the generated changes to a file into its content in the project
+ * @returns The merged content, or null if the changes could not be merged
+ */
+function mergeFile(
+  filePath: string,
+  base: string,
+  next: string,
+  current: string
+): string | null {
+  if (filePath === "package.json") {
+    return mergePackageJson(base, next, current);
+  }
+  if (filePath === ".env" || filePath === ".env.example") {
+    return mergeEnvFile(base, next, current);
+  }
+  return mergeGeneratedChanges(base, next, current);
+}
+
+/**
+ * Enable a feature in an existing project. The project is generated in memory
+ * with and without the feature, and the difference is applied to it: new
+ * files are created, and the changes to existing files merged into them so
+ * the user's edits are kept.
+ * @param feature The feature to enable
+ * @param addOptions Options given on the command line
+ */
+export async function addFeature(
+  feature: Feature,
+  addOptions: AddFeatureOptions
+): Promise<void> {
+  const projectDir = process.cwd();
+
+  try {
+    const options = await detectProjectOptions(projectDir);
+    if (options.features.includes(feature)) {
+      console.error(chalk.red(`The ${feature} feature is already enabled.`));
+      process.exit(1);
+    }
+
+    // Only the options of the added feature are taken from the command line,
+    // the others keep the values the project was generated with
+    const nextOptions: ProjectOptions = {
+      ...options,
+      ...(await resolveFeatureOptions(
+        {
+          ...options,
+          features: [...options.features, feature],
+          validationLibrary:
+            feature === "validation"
+              ? addOptions.validationLibrary
+              : options.validationLibrary,
+          authStrategy:
+            feature === "auth" ? addOptions.authStrategy : options.authStrategy,
+        },
+        promptFeatureOptions(addOptions.yes),
+        (message) => console.log(chalk.yellow(message))
+      )),
+    };
+
+    console.log(chalk.blue(`Adding ${feature} to ${options.name}`));
+
+    // Both trees are dated like the project so their migrations match it,
+    // and keep the secrets of its .env file
+    const manifest = await readManifest(projectDir);
+    const createdAt = getCreatedAt(manifest);
+    const secrets = await readEnvSecrets(projectDir);
+    const base = await buildProjectTree(options, createdAt, secrets);
+    const next = await buildProjectTree(nextOptions, createdAt, secrets);
+
+    const tree = createFileTree();
+    tree.directories = next.directories.filter(
+      (dir) => !base.directories.includes(dir)
+    );
+    // Files whose generated content is recorded in the manifest
+    const updated: string[] = [];
+    const kept: string[] = [];
+    const unmerged: string[] = [];
+
+    for (const [filePath, content] of Object.entries(next.files)) {
+      const previous = base.files[filePath];
+      if (filePath === MANIFEST_FILE || content === previous) {
+        continue;
+      }
+
+      const target = path.join(projectDir, filePath);
+      const exists = await fs.pathExists(target);
+
+      if (previous === undefined) {
+        if (exists) {
+          kept.push(filePath);
+        } else {
+          tree.files[filePath] = content;
+          updated.push(filePath);
+          console.log(chalk.green(`  created ${filePath}`));
+        }
+        continue;
+      }
+
+      // The user deleted a file the feature changes
+      if (!exists) {
+        unmerged.push(filePath);
+        console.log(chalk.yellow(`\nCould not find ${filePath}.`));
+        continue;
+      }
+
+      const current = await fs.readFile(target, "utf8");
+      const merged = mergeFile(filePath, previous, content, current);
+      if (merged === null) {
+        unmerged.push(filePath);
+        console.log(
+          chalk.yellow(
+            `\nCould not update ${filePath} automatically. Apply the following changes to it:`
+          )
+        );
+        console.log(renderDiff(filePath, previous, content));
+        continue;
+      }
+
+      updated.push(filePath);
+      if (merged !== current) {
+        tree.files[filePath] = merged;
+        console.log(chalk.green(`  updated ${filePath}`));
+      }
+    }
+
+    kept.forEach((filePath) =>
+      console.log(chalk.yellow(`  kept ${filePath}, which already exists`))
+    );
+
+    // Projects generated without a manifest get one, recording only the
+    // files written now
+    const nextManifest = manifest ?? createManifest(options, {}, createdAt);
+    nextManifest.options = nextOptions;
+    for (const filePath of updated) {
+      nextManifest.files[filePath] = hashContent(next.files[filePath]);
+    }
+    tree.files[MANIFEST_FILE] = renderManifest(nextManifest);
+
+    await commitFileTree(projectDir, tree);
+
+    if (unmerged.length > 0) {
+      console.log(
+        chalk.yellow(
+          `\n${feature} was added, but ${unmerged.join(
+            ", "
+          )} must be updated by hand.`
+        )
+      );
+    } else {
+      console.log(chalk.green(`\n✅ ${feature} added to ${options.name}`));
+    }
+    if (tree.files["package.json"]) {
+      console.log(
+        chalk.yellow(
+          `Run \`${getInstallCommand(
+            nextOptions
+          )}\` to install the new dependencies.`
+        )
+      );
+    }
+  } catch (error) {
+    console.error(
+      chalk.red(`Error adding ${feature}: ${(error as Error).message}`)
+    );
+    process.exit(1);
+  }
+}
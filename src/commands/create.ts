@@ -3,6 +3,32 @@ import fs from "fs-extra";
 import chalk from "chalk";
 import { select, checkbox, confirm } from "@inquirer/prompts";
 import { generateProject } from "../utils/generator.js";
+import {
+  DATABASE_ORMS,
+  FeatureOptionChoosers,
+  formatAllowed,
+  resolveFeatureOptions,
+} from "../utils/options.js";
+import {
+  isValidPresetName,
+  loadPreset,
+  savePreset,
+  Preset,
+} from "../utils/presets.js";
+import { ConflictPolicy } from "../utils/files.js";
+import {
+  getOpenApiAuthStrategy,
+  getOpenApiTags,
+  getPersistedResources,
+  loadOpenApiSpec,
+  OpenApiSpec,
+} from "../utils/openapi.js";
+import { initRepository, isInsideRepository } from "../utils/git.js";
+import {
+  getInstallCommand,
+  getRunCommand,
+  installDependencies,
+} from "../utils/packageManager.js";
 import {
   ProjectOptions,
   Framework,
@@ -10,140 +36,407 @@ import {
   ORM,
   Feature,
   Language,
+  PackageManager,
   ValidationLibrary,
   AuthStrategy,
 } from "../types/project.js";
 
-type Choice<T> = {
+export type Choice<T> = {
   name: string;
   value: T;
 };
 
+/**
+ * Options accepted by the create command. Every answer that is provided
+ * here is not prompted for.
+ */
+export interface CreateOptions {
+  language?: Language;
+  framework?: Framework;
+  database?: Database;
+  orm?: ORM;
+  features?: Feature[];
+  validationLibrary?: ValidationLibrary;
+  authStrategy?: AuthStrategy;
+  /** Use defaults for every answer that is not provided */
+  yes?: boolean;
+  /** Preset file or saved preset name providing default answers */
+  preset?: string;
+  /** Save the final answers as a named preset */
+  savePreset?: string;
+  /** Directory with templates overriding the built-in ones */
+  templates?: string;
+  /** OpenAPI document to generate the routes, validators and models from */
+  fromOpenapi?: string;
+  /** npm registry the dependency versions are resolved from */
+  registry?: string;
+  packageManager?: PackageManager;
+  /** Do not install the dependencies after generating the project */
+  skipInstall?: boolean;
+  /** Do not create a git repository with an initial commit */
+  skipGit?: boolean;
+  /** Print the files that would be written without writing anything */
+  dryRun?: boolean;
+  /** What to do with existing files that have other content */
+  onConflict?: ConflictPolicy;
+}
+
+const languageChoices: Choice<Language>[] = [
+  { name: "TypeScript", value: "typescript" },
+  { name: "JavaScript", value: "javascript" },
+];
+
+const frameworkChoices: Choice<Framework>[] = [
+  { name: "Express", value: "express" },
+  { name: "Fastify", value: "fastify" },
+  { name: "Koa", value: "koa" },
+];
+
+const databaseChoices: Choice<Database>[] = [
+  { name: "MongoDB", value: "mongodb" },
+  { name: "PostgreSQL", value: "postgres" },
+  { name: "MySQL", value: "mysql" },
+  { name: "SQLite", value: "sqlite" },
+  /* Commented out for now
+  { name: "None", value: "none" },
+  */
+];
+
+const featureChoices: Choice<Feature>[] = [
+  { name: "Authentication (Passport)", value: "auth" },
+  { name: "Validation", value: "validation" },
+  { name: "Swagger/OpenAPI Documentation", value: "swagger" },
+  { name: "Docker", value: "docker" },
+  { name: "Testing (Jest)", value: "tests" },
+];
+
+const validationLibraryChoices: Choice<ValidationLibrary>[] = [
+  { name: "Joi", value: "joi" },
+  { name: "Zod", value: "zod" },
+];
+
+const authStrategyChoices: Choice<AuthStrategy>[] = [
+  { name: "JWT", value: "jwt" },
+  { name: "Session-based", value: "session" },
+  { name: "OAuth (Google, GitHub, etc.)", value: "oauth" },
+];
+
+const packageManagerChoices: Choice<PackageManager>[] = [
+  { name: "npm", value: "npm" },
+  { name: "pnpm", value: "pnpm" },
+  { name: "Yarn", value: "yarn" },
+  { name: "Bun", value: "bun" },
+];
+
+const ormNames: Record<ORM, string> = {
+  mongoose: "Mongoose",
+  prisma: "Prisma",
+  sequelize: "Sequelize",
+  typeorm: "TypeORM",
+  drizzle: "Drizzle",
+  none: "None",
+};
+
+/**
+ * Get the ORM choices that are available for a database
+ */
+function getOrmChoices(database: Database): Choice<ORM>[] {
+  return DATABASE_ORMS[database].map((orm) => ({
+    name: ormNames[orm],
+    value: orm,
+  }));
+}
+
+/**
+ * Use the value given on the command line if there is one, otherwise fall
+ * back to the default (with --yes) or prompt for it
+ */
+async function resolveAnswer<T>(
+  value: T | undefined,
+  choices: Choice<T>[],
+  useDefaults: boolean | undefined,
+  prompt: () => Promise<T>
+): Promise<T> {
+  if (value !== undefined) {
+    return value;
+  }
+  if (useDefaults) {
+    return choices[0].value;
+  }
+  return prompt();
+}
+
+/**
+ * Prompt for the options the selected features need, or use their defaults
+ * with --yes
+ */
+export function promptFeatureOptions(
+  useDefaults: boolean | undefined
+): FeatureOptionChoosers {
+  return {
+    validationLibrary: () =>
+      resolveAnswer(undefined, validationLibraryChoices, useDefaults, () =>
+        select<ValidationLibrary>({
+          message: "Select a validation library:",
+          choices: validationLibraryChoices,
+        })
+      ),
+    authStrategy: () =>
+      resolveAnswer(undefined, authStrategyChoices, useDefaults, () =>
+        select<AuthStrategy>({
+          message: "Select an authentication strategy:",
+          choices: authStrategyChoices,
+        })
+      ),
+  };
+}
+
+/**
+ * Report what the project generated from an OpenAPI document leaves out
+ */
+function warnAboutOpenApiSpec(
+  spec: OpenApiSpec,
+  options: ProjectOptions
+): void {
+  const secured = getOpenApiTags(spec.document)
+    .flatMap((tag) => tag.operations)
+    .filter((operation) => operation.secured);
+  if (secured.length > 0 && !options.features.includes("auth")) {
+    console.log(
+      chalk.yellow(
+        `${secured.length} operation(s) of the OpenAPI document require authentication, but the auth feature is not selected. Their routes are not protected.`
+      )
+    );
+  }
+
+  const { skipped } = getPersistedResources(spec.document);
+  if (skipped.length > 0) {
+    console.log(
+      chalk.yellow(
+        `Properties that are not scalars or lists of scalars are not stored by the models: ${skipped.join(
+          ", "
+        )}.`
+      )
+    );
+  }
+}
+
 /**
  * Main function to create a new project
  * @param projectName The name of the project to create
+ * @param createOptions Answers given on the command line
  */
-export async function createProject(projectName: string): Promise<void> {
+export async function createProject(
+  projectName: string,
+  createOptions: CreateOptions = {}
+): Promise<void> {
   console.log(chalk.blue(`Creating a new REST API project: ${projectName}`));
 
+  const { yes } = createOptions;
+
+  if (
+    createOptions.savePreset &&
+    !isValidPresetName(createOptions.savePreset)
+  ) {
+    console.error(
+      chalk.red(
+        `Invalid preset name "${createOptions.savePreset}". Use letters, numbers, "-" and "_" only.`
+      )
+    );
+    process.exit(1);
+  }
+
+  // Load the preset first so an invalid one fails before any prompt
+  let preset: Preset = {};
+  if (createOptions.preset) {
+    try {
+      preset = await loadPreset(createOptions.preset);
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+  }
+
+  // Answers given as flags take precedence over the preset
+  const answers: CreateOptions = {
+    language: createOptions.language ?? preset.language,
+    framework: createOptions.framework ?? preset.framework,
+    database: createOptions.database ?? preset.database,
+    orm: createOptions.orm ?? preset.orm,
+    features: createOptions.features ?? preset.features,
+    validationLibrary:
+      createOptions.validationLibrary ?? preset.validationLibrary,
+    authStrategy: createOptions.authStrategy ?? preset.authStrategy,
+    templates: createOptions.templates
+      ? path.resolve(process.cwd(), createOptions.templates)
+      : preset.templates,
+    fromOpenapi: createOptions.fromOpenapi
+      ? path.resolve(process.cwd(), createOptions.fromOpenapi)
+      : preset.openapi,
+    registry: createOptions.registry ?? preset.registry,
+    packageManager: createOptions.packageManager ?? preset.packageManager,
+  };
+
+  if (answers.templates && !(await fs.pathExists(answers.templates))) {
+    console.error(
+      chalk.red(`Templates directory ${answers.templates} does not exist.`)
+    );
+    process.exit(1);
+  }
+
+  // The OpenAPI document is checked before any prompt as well
+  let spec: OpenApiSpec | null = null;
+  if (answers.fromOpenapi) {
+    try {
+      spec = await loadOpenApiSpec(answers.fromOpenapi);
+    } catch (error) {
+      console.error(chalk.red((error as Error).message));
+      process.exit(1);
+    }
+    const operations = getOpenApiTags(spec.document).flatMap(
+      (tag) => tag.operations
+    );
+    console.log(
+      chalk.blue(
+        `Generating the routes of ${operations.length} operation(s) from ${answers.fromOpenapi}`
+      )
+    );
+  }
+
   // Ensure project name is valid
   const projectDir = path.resolve(process.cwd(), projectName);
 
-  // Check if directory already exists
-  if (fs.existsSync(projectDir)) {
-    const shouldContinue = await confirm({
-      message: `Directory ${projectName} already exists. Continue? This may overwrite files.`,
-      default: false,
-    });
+  // Check if directory already exists. Nothing is written in a dry run, and
+  // with a conflict policy the user already chose what happens to its files.
+  if (
+    fs.existsSync(projectDir) &&
+    !createOptions.dryRun &&
+    !createOptions.onConflict
+  ) {
+    const shouldContinue = yes
+      ? false
+      : await confirm({
+          message: `Directory ${projectName} already exists. Continue? You will be asked before changed files are overwritten.`,
+          default: false,
+        });
 
     if (!shouldContinue) {
-      console.log(chalk.yellow("Project creation cancelled."));
+      console.log(
+        chalk.yellow(
+          "Project creation cancelled. Use --on-conflict to choose what happens to existing files."
+        )
+      );
       process.exit(0);
     }
   }
 
   try {
     // Select language
-    const language = await select<Language>({
-      message: "Select a language:",
-      choices: [
-        { name: "TypeScript", value: "typescript" },
-        { name: "JavaScript", value: "javascript" },
-      ],
-    });
+    const language = await resolveAnswer(
+      answers.language,
+      languageChoices,
+      yes,
+      () =>
+        select<Language>({
+          message: "Select a language:",
+          choices: languageChoices,
+        })
+    );
 
-    // Framework selection - currently limited to Express
-    const framework = await select<Framework>({
-      message: "Select a backend framework:",
-      choices: [
-        { name: "Express", value: "express" },
-        /* Commented out for now
-        { name: "Fastify", value: "fastify" },
-        { name: "Koa", value: "koa" },
-        */
-      ],
-    });
+    const framework = await resolveAnswer(
+      answers.framework,
+      frameworkChoices,
+      yes,
+      () =>
+        select<Framework>({
+          message: "Select a backend framework:",
+          choices: frameworkChoices,
+        })
+    );
 
-    // Database selection - currently limited to MongoDB
-    const database = await select<Database>({
-      message: "Select a database:",
-      choices: [
-        { name: "MongoDB", value: "mongodb" },
-        /* Commented out for now
-        { name: "PostgreSQL", value: "postgres" },
-        { name: "MySQL", value: "mysql" },
-        { name: "SQLite", value: "sqlite" },
-        { name: "None", value: "none" },
-        */
-      ],
-    });
+    const database = await resolveAnswer(
+      answers.database,
+      databaseChoices,
+      yes,
+      () =>
+        select<Database>({
+          message: "Select a database:",
+          choices: databaseChoices,
+        })
+    );
 
-    // ORM selection - currently limited to Mongoose for MongoDB
-    // We'll keep the conditional logic for future extensibility
-    let ormChoices: Choice<ORM>[] = [
-      { name: "Mongoose", value: "mongoose" },
-      /* Commented out for now
-      { name: "Prisma", value: "prisma" },
-      { name: "None", value: "none" },
-      */
-    ];
+    const ormChoices = getOrmChoices(database);
+    const allowedOrms = ormChoices.map((choice) => choice.value);
 
-    /*
-    // This is commented out for now, but preserved for future use
-    if (database === "none") {
-      ormChoices = [{ name: "None", value: "none" }];
-    } else if (database !== "mongodb") {
-      ormChoices = [
-        { name: "Prisma", value: "prisma" },
-        { name: "Sequelize", value: "sequelize" },
-        { name: "TypeORM", value: "typeorm" },
-        { name: "Drizzle", value: "drizzle" },
-        { name: "None", value: "none" },
-      ];
+    if (answers.orm && !allowedOrms.includes(answers.orm)) {
+      console.error(
+        chalk.red(
+          `ORM "${answers.orm}" cannot be used with database "${database}". Allowed values: ${formatAllowed(
+            allowedOrms
+          )}.`
+        )
+      );
+      process.exit(1);
     }
-    */
 
-    const orm = await select<ORM>({
-      message: "Select an ORM/ODM:",
-      choices: ormChoices,
-    });
+    const orm = await resolveAnswer(answers.orm, ormChoices, yes, () =>
+      select<ORM>({
+        message: "Select an ORM/ODM:",
+        choices: ormChoices,
+      })
+    );
 
-    // Select additional features
-    const features = await checkbox<Feature>({
-      message: "Select additional features:",
-      choices: [
-        { name: "Authentication (Passport)", value: "auth" },
-        { name: "Validation", value: "validation" },
-        { name: "Swagger/OpenAPI Documentation", value: "swagger" },
-        { name: "Docker", value: "docker" },
-        { name: "Testing (Jest)", value: "tests" },
-      ],
-    });
+    // Select additional features (no features by default)
+    const selectedFeatures =
+      answers.features ??
+      (yes
+        ? []
+        : await checkbox<Feature>({
+            message: "Select additional features:",
+            choices: featureChoices,
+          }));
 
-    // Additional configuration based on selected features
-    let validationLibrary: ValidationLibrary | undefined;
-    let authStrategy: AuthStrategy | undefined;
-
-    if (features.includes("validation")) {
-      validationLibrary = await select<ValidationLibrary>({
-        message: "Select a validation library:",
-        choices: [
-          { name: "Joi", value: "joi" },
-          { name: "Zod", value: "zod" },
-        ],
-      });
-    }
+    const prompts = promptFeatureOptions(yes);
+    // The security schemes of the OpenAPI document suggest a strategy
+    const documentStrategy = spec
+      ? getOpenApiAuthStrategy(spec.document)
+      : undefined;
+    const { features, validationLibrary, authStrategy } =
+      await resolveFeatureOptions(
+        {
+          framework,
+          features: selectedFeatures,
+          validationLibrary: answers.validationLibrary,
+          authStrategy: answers.authStrategy,
+          openapi: answers.fromOpenapi,
+        },
+        {
+          ...prompts,
+          authStrategy: async () => {
+            if (!documentStrategy) {
+              return prompts.authStrategy();
+            }
+            console.log(
+              chalk.blue(
+                `Using the ${documentStrategy} strategy of the security schemes of the OpenAPI document.`
+              )
+            );
+            return documentStrategy;
+          },
+        },
+        (message) => console.log(chalk.yellow(message))
+      );
 
-    if (features.includes("auth")) {
-      authStrategy = await select<AuthStrategy>({
-        message: "Select an authentication strategy:",
-        choices: [
-          { name: "JWT", value: "jwt" },
-          { name: "Session-based", value: "session" },
-          { name: "OAuth (Google, GitHub, etc.)", value: "oauth" },
-        ],
-      });
-    }
+    const packageManager = await resolveAnswer(
+      answers.packageManager,
+      packageManagerChoices,
+      yes,
+      () =>
+        select<PackageManager>({
+          message: "Select a package manager:",
+          choices: packageManagerChoices,
+        })
+    );
 
     // Collect project options
     const projectOptions: ProjectOptions = {
@@ -155,19 +448,103 @@ export async function createProject(projectName: string): Promise<void> {
       features,
       validationLibrary,
       authStrategy,
+      templates: answers.templates,
+      openapi: answers.fromOpenapi,
+      registry: answers.registry,
+      packageManager,
     };
 
+    if (spec) {
+      warnAboutOpenApiSpec(spec, projectOptions);
+    }
+
     // Generate project with collected options
-    await generateProject(projectDir, projectOptions);
+    const changes = await generateProject(projectDir, projectOptions, {
+      dryRun: createOptions.dryRun,
+      onConflict: createOptions.onConflict,
+    });
 
+    if (createOptions.dryRun) {
+      return;
+    }
+
+    const kept = changes.filter((change) => change.action === "skip");
+    if (kept.length > 0) {
+      console.log(
+        chalk.yellow(
+          `Kept ${kept.length} existing file(s) with other content:\n  ${kept
+            .map((change) => change.path)
+            .join("\n  ")}`
+        )
+      );
+    }
+
+    if (createOptions.savePreset) {
+      const presetPath = await savePreset(
+        createOptions.savePreset,
+        projectOptions
+      );
+      console.log(chalk.blue(`Saved preset to ${presetPath}`));
+    }
+
+    // Install before committing, so the lockfile is committed too. Failures
+    // are reported and the project is kept.
+    let installed = false;
+    if (!createOptions.skipInstall) {
+      console.log(
+        chalk.blue(`\nInstalling dependencies with ${packageManager}...`)
+      );
+      try {
+        await installDependencies(projectDir, projectOptions);
+        installed = true;
+      } catch (error) {
+        console.error(
+          chalk.red(
+            `Could not install the dependencies: ${(error as Error).message}`
+          )
+        );
+        console.error(
+          chalk.yellow(
+            `The project was generated in ${projectDir}. Run \`${getInstallCommand(
+              projectOptions
+            )}\` in it once the problem is fixed.`
+          )
+        );
+      }
+    }
+
+    if (!createOptions.skipGit) {
+      if (await isInsideRepository(projectDir)) {
+        console.log(
+          chalk.yellow(
+            "Skipping git init, the project is already inside a git repository."
+          )
+        );
+      } else {
+        try {
+          await initRepository(projectDir, "Initial commit from rest-generate");
+          console.log(chalk.blue("Initialized a git repository."));
+        } catch (error) {
+          console.error(
+            chalk.yellow(
+              `Could not create the git repository: ${(error as Error).message}`
+            )
+          );
+        }
+      }
+    }
+
+    const nextSteps = [
+      `cd ${projectName}`,
+      ...(installed ? [] : [getInstallCommand(projectOptions)]),
+      getRunCommand(projectOptions, "dev"),
+    ];
     console.log(
       chalk.green(`
 ✅ Project ${projectName} successfully created!
 
 Next steps:
-  cd ${projectName}
-  npm install
-  npm run dev
+  ${nextSteps.join("\n  ")}
     `)
     );
   } catch (error) {
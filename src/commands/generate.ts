@@ -0,0 +1,258 @@
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+import { writeFiles } from "../utils/generator.js";
+import {
+  addImport,
+  insertAfterLast,
+  insertBeforeFirst,
+} from "../utils/patch.js";
+import { detectProjectOptions, PRISMA_SCHEMA_FILE } from "../utils/project.js";
+import { getRunCommand } from "../utils/packageManager.js";
+import {
+  getModifiedFiles,
+  readManifest,
+  recordFiles,
+} from "../utils/manifest.js";
+import {
+  getMigrationFile,
+  getResourceFiles,
+  getResourceNames,
+  getRouteRegistration,
+  renderPrismaModel,
+  validateResourceName,
+} from "../utils/resource.js";
+import { ProjectOptions } from "../types/project.js";
+import { ResourceDefinition, ResourceField } from "../types/resource.js";
+
+/**
+ * Options accepted by the generate resource command
+ */
+export interface GenerateResourceOptions {
+  fields: ResourceField[];
+  /** Overwrite files that already exist */
+  force?: boolean;
+}
+
+/**
+ * Mount the router of a resource in the application.
+ * Returns false if the file could not be patched.
+ */
+async function registerRoutes(
+  projectDir: string,
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): Promise<boolean> {
+  const registration = getRouteRegistration(options, resource);
+  const filePath = path.join(projectDir, registration.file);
+  if (!(await fs.pathExists(filePath))) {
+    return false;
+  }
+
+  const { importLine, mountLine } = registration;
+  const source = await fs.readFile(filePath, "utf8");
+
+  if (source.includes(mountLine)) {
+    return true;
+  }
+
+  // Mount next to the other API routers, or right before the server starts
+  const mounted =
+    insertAfterLast(source, registration.after, mountLine) ??
+    insertBeforeFirst(source, registration.before, mountLine);
+
+  if (!mounted) {
+    return false;
+  }
+
+  await fs.writeFile(filePath, addImport(mounted, importLine));
+  return true;
+}
+
+/**
+ * Add the model of a resource to the Prisma schema of the project.
+ * Returns false if the project has no Prisma schema.
+ */
+async function registerPrismaModel(
+  projectDir: string,
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): Promise<boolean> {
+  const schemaPath = path.join(projectDir, PRISMA_SCHEMA_FILE);
+  if (!(await fs.pathExists(schemaPath))) {
+    return false;
+  }
+
+  const names = getResourceNames(resource.name);
+  const schema = await fs.readFile(schemaPath, "utf8");
+
+  if (new RegExp(`^model\\s+${names.pascal}\\s*\\{`, "m").test(schema)) {
+    return true;
+  }
+
+  await fs.writeFile(
+    schemaPath,
+    `${schema.trimEnd()}\n\n${await renderPrismaModel(options, resource)}`
+  );
+  return true;
+}
+
+/**
+ * Find a migration that already creates the table of a resource, so that
+ * regenerating the resource does not create the table twice
+ * @param migrationFile Path of the new migration, relative to the project root
+ */
+async function findExistingMigration(
+  projectDir: string,
+  migrationFile: string
+): Promise<string | undefined> {
+  const dir = path.dirname(migrationFile);
+  if (!(await fs.pathExists(path.join(projectDir, dir)))) {
+    return undefined;
+  }
+
+  // Migrations only differ by their timestamp prefix
+  const withoutTimestamp = (file: string) => file.replace(/^\d+/, "");
+  const name = withoutTimestamp(path.basename(migrationFile));
+  const existing = (await fs.readdir(path.join(projectDir, dir))).find(
+    (file) => withoutTimestamp(file) === name
+  );
+  return existing && path.join(dir, existing);
+}
+
+/**
+ * Generate a CRUD resource inside an existing project
+ * @param name The name of the resource, e.g. "product"
+ * @param generateOptions Options given on the command line
+ */
+export async function generateResource(
+  name: string,
+  generateOptions: GenerateResourceOptions
+): Promise<void> {
+  const projectDir = process.cwd();
+
+  try {
+    validateResourceName(name);
+
+    const options = await detectProjectOptions(projectDir);
+
+    // Files changed by the user since they were generated, when the project
+    // has a manifest to tell
+    const manifest = await readManifest(projectDir);
+    const modified = manifest
+      ? await getModifiedFiles(projectDir, manifest)
+      : [];
+
+    const resource: ResourceDefinition = {
+      name,
+      fields: generateOptions.fields,
+    };
+    const names = getResourceNames(name);
+    const createdAt = new Date();
+    const files = await getResourceFiles(options, resource, createdAt);
+
+    const migrationFile = getMigrationFile(options, resource, createdAt);
+    const existingMigration =
+      migrationFile && (await findExistingMigration(projectDir, migrationFile));
+    if (migrationFile && existingMigration) {
+      delete files[migrationFile];
+    }
+
+    const existing = Object.keys(files)
+      .filter((file) => fs.existsSync(path.join(projectDir, file)))
+      .map((file) =>
+        modified.includes(file) ? `${file} (modified since generation)` : file
+      );
+    if (existing.length > 0 && !generateOptions.force) {
+      console.error(
+        chalk.red(
+          `The following files already exist:\n  ${existing.join(
+            "\n  "
+          )}\nUse --force to overwrite them.`
+        )
+      );
+      process.exit(1);
+    }
+
+    console.log(chalk.blue(`Generating resource: ${names.label}`));
+
+    await writeFiles(projectDir, files);
+    Object.keys(files).forEach((file) =>
+      console.log(chalk.green(`  created ${file}`))
+    );
+    if (existingMigration) {
+      console.log(chalk.yellow(`  kept ${existingMigration}`));
+    }
+
+    if (options.orm === "prisma") {
+      if (await registerPrismaModel(projectDir, options, resource)) {
+        console.log(chalk.green(`  updated ${PRISMA_SCHEMA_FILE}`));
+        console.log(
+          chalk.yellow(
+            `Run \`${getRunCommand(
+              options,
+              "prisma:migrate"
+            )}\` to create the ${names.label} table.`
+          )
+        );
+      } else {
+        console.log(
+          chalk.yellow(`
+Could not find ${PRISMA_SCHEMA_FILE}. Add the following model to your Prisma schema:
+${await renderPrismaModel(options, resource)}`)
+        );
+      }
+    }
+
+    if (migrationFile && !existingMigration) {
+      console.log(
+        chalk.yellow(
+          `Run \`${getRunCommand(
+            options,
+            "db:migrate"
+          )}\` to create the ${names.label} table.`
+        )
+      );
+    }
+
+    if (options.orm === "drizzle") {
+      console.log(
+        chalk.yellow(
+          `Run \`${getRunCommand(options, "db:generate")}\` and \`${getRunCommand(
+            options,
+            "db:migrate"
+          )}\` to create the table.`
+        )
+      );
+    }
+
+    const registration = getRouteRegistration(options, resource);
+    if (await registerRoutes(projectDir, options, resource)) {
+      console.log(chalk.green(`  updated ${registration.file}`));
+    } else {
+      console.log(
+        chalk.yellow(`
+Could not register the router automatically. Add the following to ${registration.file}:
+  ${registration.importLine}
+  ${registration.mountLine.trim()}`)
+      );
+    }
+
+    if (manifest) {
+      // Only the files rendered by the generator are recorded. The hashes of
+      // the patched files stay those of their generated content, which
+      // upgrade merges their new content with.
+      await recordFiles(projectDir, manifest, Object.keys(files));
+    }
+
+    console.log(
+      chalk.green(`
+✅ Resource ${names.label} available at /api/${names.pluralKebab}`)
+    );
+  } catch (error) {
+    console.error(
+      chalk.red(`Error generating resource: ${(error as Error).message}`)
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,249 @@
+import path from "path";
+import fs from "fs-extra";
+import chalk from "chalk";
+import { buildProjectTree, readEnvSecrets } from "../utils/generator.js";
+import { commitFileTree, createFileTree } from "../utils/files.js";
+import { findFileVersion } from "../utils/git.js";
+import { getInstallCommand } from "../utils/packageManager.js";
+import {
+  getCreatedAt,
+  getGeneratorVersion,
+  hashContent,
+  MANIFEST_FILE,
+  readManifest,
+  renderManifest,
+} from "../utils/manifest.js";
+import {
+  markConflicts,
+  mergeEnvFile,
+  mergePackageJson,
+  mergeThreeWay,
+  MergeResult,
+} from "../utils/merge.js";
+
+/**
+ * Sections of package.json compared in the summary
+ */
+const DEPENDENCY_SECTIONS = ["dependencies", "devDependencies"] as const;
+
+/**
+ * Merge the upgraded content of a file with its content in the project
+ * @param base The content the file was generated with, when known
+ */
+function mergeFile(
+  filePath: string,
+  base: string | null,
+  current: string,
+  next: string,
+  label: string
+): MergeResult {
+  if (filePath === "package.json") {
+    // Without the original, only the dependencies and scripts that are
+    // missing are added
+    const content = mergePackageJson(base ?? "{}", next, current);
+    if (content !== null) {
+      return { content, conflicts: 0 };
+    }
+  }
+  if (filePath === ".env" || filePath === ".env.example") {
+    return { content: mergeEnvFile(base ?? "", next, current), conflicts: 0 };
+  }
+  return base === null
+    ? markConflicts(current, next, label)
+    : mergeThreeWay(base, current, next, label);
+}
+
+/**
+ * List the dependencies added, removed or updated between two versions of
+ * package.json
+ */
+function summarizeDependencies(before: string, after: string): string[] {
+  const lines: string[] = [];
+  const beforeJson = JSON.parse(before);
+  const afterJson = JSON.parse(after);
+
+  for (const section of DEPENDENCY_SECTIONS) {
+    const old: Record<string, string> = beforeJson[section] ?? {};
+    const updated: Record<string, string> = afterJson[section] ?? {};
+    const names = [
+      ...new Set([...Object.keys(old), ...Object.keys(updated)]),
+    ].sort();
+
+    for (const name of names) {
+      if (!(name in old)) {
+        lines.push(chalk.green(`  + ${name} ${updated[name]} (${section})`));
+      } else if (!(name in updated)) {
+        lines.push(chalk.red(`  - ${name} ${old[name]} (${section})`));
+      } else if (old[name] !== updated[name]) {
+        lines.push(
+          chalk.yellow(
+            `  ~ ${name} ${old[name]} → ${updated[name]} (${section})`
+          )
+        );
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Generate a project again with the current version of rest-generate, from
+ * the options in its manifest, and merge the result into it. For each file,
+ * the changes the generator made since the project was generated are merged
+ * with the changes the user made: files the user did not change are replaced,
+ * and changes on both sides are merged line by line, conflicts being written
+ * with markers.
+ */
+export async function upgradeProject(): Promise<void> {
+  const projectDir = process.cwd();
+
+  try {
+    const manifest = await readManifest(projectDir);
+    if (!manifest) {
+      console.error(
+        chalk.red(
+          `No ${MANIFEST_FILE} found in ${projectDir}. Only projects generated with a manifest can be upgraded.`
+        )
+      );
+      process.exit(1);
+    }
+
+    const version = getGeneratorVersion();
+    const label = `rest-generate ${version}`;
+    console.log(
+      chalk.blue(
+        `Upgrading ${manifest.options.name} from rest-generate ${manifest.version} to ${version}`
+      )
+    );
+
+    const next = await buildProjectTree(
+      manifest.options,
+      getCreatedAt(manifest),
+      await readEnvSecrets(projectDir)
+    );
+    const tree = createFileTree();
+
+    const conflicts: string[] = [];
+    // Conflicted files whose generated content was not found, so every
+    // difference is a conflict
+    const withoutBase: string[] = [];
+    const deleted: string[] = [];
+    let dependencyChanges: string[] = [];
+
+    for (const [filePath, content] of Object.entries(next.files)) {
+      if (filePath === MANIFEST_FILE) {
+        continue;
+      }
+
+      const recorded = manifest.files[filePath];
+      const target = path.join(projectDir, filePath);
+
+      if (!(await fs.pathExists(target))) {
+        if (recorded) {
+          deleted.push(filePath);
+        } else {
+          tree.files[filePath] = content;
+          manifest.files[filePath] = hashContent(content);
+          console.log(chalk.green(`  created ${filePath}`));
+        }
+        continue;
+      }
+
+      const current = await fs.readFile(target, "utf8");
+      if (current === content) {
+        manifest.files[filePath] = hashContent(content);
+        continue;
+      }
+
+      // The generator did not change the file since it was generated
+      if (recorded === hashContent(content)) {
+        continue;
+      }
+
+      // The base is the content the file was generated with. The same
+      // version renders it again from the recorded options, and the hashes
+      // recorded by earlier versions may be those of files that later
+      // commands patched, e.g. to register a resource.
+      let base: string | null = null;
+      if (manifest.version === version) {
+        base = content;
+      } else if (recorded) {
+        base =
+          hashContent(current) === recorded
+            ? current
+            : await findFileVersion(projectDir, filePath, recorded);
+      }
+      const merged = mergeFile(filePath, base, current, content, label);
+      manifest.files[filePath] = hashContent(content);
+      if (merged.content === current) {
+        continue;
+      }
+
+      tree.files[filePath] = merged.content;
+      if (filePath === "package.json") {
+        dependencyChanges = summarizeDependencies(current, merged.content);
+      }
+      if (merged.conflicts > 0) {
+        conflicts.push(`${filePath} (${merged.conflicts})`);
+        if (base === null) {
+          withoutBase.push(filePath);
+        }
+        console.log(chalk.red(`  conflict ${filePath}`));
+      } else {
+        console.log(chalk.green(`  updated ${filePath}`));
+      }
+    }
+
+    manifest.version = version;
+    tree.files[MANIFEST_FILE] = renderManifest(manifest);
+    await commitFileTree(projectDir, tree);
+
+    if (dependencyChanges.length > 0) {
+      console.log(chalk.blue("\nDependencies:"));
+      dependencyChanges.forEach((line) => console.log(line));
+      console.log(
+        chalk.yellow(
+          `Run \`${getInstallCommand(
+            manifest.options
+          )}\` to install the new dependencies.`
+        )
+      );
+    }
+
+    if (deleted.length > 0) {
+      console.log(
+        chalk.yellow(
+          `\nNot restored, as they were deleted:\n  ${deleted.join("\n  ")}`
+        )
+      );
+    }
+    if (withoutBase.length > 0) {
+      console.log(
+        chalk.yellow(
+          `\nThe content these files were generated with is not in the git history, so every difference is a conflict:\n  ${withoutBase.join(
+            "\n  "
+          )}`
+        )
+      );
+    }
+
+    if (conflicts.length > 0) {
+      console.log(
+        chalk.red(
+          `\nConflicts (between <<<<<<< and >>>>>>> markers) to resolve in:\n  ${conflicts.join(
+            "\n  "
+          )}`
+        )
+      );
+      process.exit(1);
+    }
+
+    console.log(chalk.green(`\n✅ ${manifest.options.name} upgraded`));
+  } catch (error) {
+    console.error(
+      chalk.red(`Error upgrading project: ${(error as Error).message}`)
+    );
+    process.exit(1);
+  }
+}
@@ -1,17 +1,38 @@
-import { Command } from "commander";
+import { Argument, Command, Option } from "commander";
 import chalk from "chalk";
-import { createProject } from "./commands/create.js";
-import fs from "fs-extra";
-import path from "path";
-import { fileURLToPath } from "url";
+import { createProject, CreateOptions } from "./commands/create.js";
+import { addFeature, AddFeatureOptions } from "./commands/add.js";
+import { upgradeProject } from "./commands/upgrade.js";
+import {
+  generateResource,
+  GenerateResourceOptions,
+} from "./commands/generate.js";
+import { parseFeatureList, parseRegistryUrl } from "./utils/options.js";
+import { parseFieldList } from "./utils/resource.js";
+import { CONFLICT_POLICIES } from "./utils/files.js";
+import {
+  AUTH_STRATEGIES,
+  DATABASES,
+  Feature,
+  FEATURES,
+  FRAMEWORKS,
+  LANGUAGES,
+  ORMS,
+  PACKAGE_MANAGERS,
+  VALIDATION_LIBRARIES,
+} from "./types/project.js";
+import { getGeneratorVersion } from "./utils/manifest.js";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Read package.json for version
-const packageJson = JSON.parse(
-  fs.readFileSync(path.join(__dirname, "../package.json"), "utf8")
-);
+// Programmatic API, see README.md
+export { generate } from "./api.js";
+export type { GenerateOptions, GenerateResult, Logger } from "./api.js";
+export type {
+  FileAction,
+  FileChange,
+  FileTree,
+  ProjectFiles,
+} from "./utils/files.js";
+export * from "./types/project.js";
 
 /**
  * Main function to run the CLI
@@ -22,20 +43,146 @@ export async function run(): Promise<void> {
   program
     .name("rest-generate")
     .description("Generate Node.js REST API projects with customizable options")
-    .version(packageJson.version);
+    .version(getGeneratorVersion());
 
   program
     .command("create <project-name>")
     .description("Create a new REST API project")
-    .action(async (projectName: string) => {
+    .addOption(
+      new Option("-l, --language <language>", "project language").choices(
+        LANGUAGES
+      )
+    )
+    .addOption(
+      new Option("-f, --framework <framework>", "backend framework").choices(
+        FRAMEWORKS
+      )
+    )
+    .addOption(
+      new Option("-d, --database <database>", "database engine").choices(
+        DATABASES
+      )
+    )
+    .addOption(new Option("-o, --orm <orm>", "ORM/ODM").choices(ORMS))
+    .addOption(
+      new Option(
+        "--features <features>",
+        `comma separated list of features (${FEATURES.join(", ")} or none)`
+      ).argParser(parseFeatureList)
+    )
+    .addOption(
+      new Option(
+        "--validation-library <library>",
+        "validation library used by the validation feature"
+      ).choices(VALIDATION_LIBRARIES)
+    )
+    .addOption(
+      new Option(
+        "--auth-strategy <strategy>",
+        "authentication strategy used by the auth feature"
+      ).choices(AUTH_STRATEGIES)
+    )
+    .option(
+      "-p, --preset <file|name>",
+      "JSON/YAML preset file or saved preset name providing the answers"
+    )
+    .option(
+      "--save-preset <name>",
+      "save the answers as a named preset in the user config directory"
+    )
+    .option(
+      "--templates <dir>",
+      "directory with templates overriding the built-in ones"
+    )
+    .option(
+      "--from-openapi <file>",
+      "OpenAPI 3 document (JSON or YAML) to generate the routes, validators and models from"
+    )
+    .option(
+      "--registry <url>",
+      "npm registry (e.g. a local mirror) to resolve exact dependency versions from",
+      parseRegistryUrl
+    )
+    .addOption(
+      new Option(
+        "--package-manager <manager>",
+        "package manager used in scripts and to install the dependencies"
+      ).choices(PACKAGE_MANAGERS)
+    )
+    .option("--skip-install", "do not install the dependencies")
+    .option("--skip-git", "do not create a git repository")
+    .option(
+      "--dry-run",
+      "print the files that would be created or changed without writing them"
+    )
+    .addOption(
+      new Option(
+        "--on-conflict <policy>",
+        "what to do with existing files that have other content"
+      ).choices(CONFLICT_POLICIES)
+    )
+    .option("-y, --yes", "use defaults for every answer not given as a flag")
+    .action(async (projectName: string, options: CreateOptions) => {
       try {
-        await createProject(projectName);
+        await createProject(projectName, options);
       } catch (error) {
         console.error(chalk.red("Error creating project:"), error);
         process.exit(1);
       }
     });
 
+  const generate = program
+    .command("generate")
+    .alias("g")
+    .description("Generate code inside an existing project");
+
+  generate
+    .command("resource <name>")
+    .description(
+      "Scaffold a model, controller, router, validators and tests for a resource"
+    )
+    .requiredOption(
+      "--fields <fields>",
+      "comma separated fields, e.g. title:string,price:number,tags:string[] (append ? for optional fields)",
+      parseFieldList
+    )
+    .option("--force", "overwrite files that already exist")
+    .action(async (name: string, options: GenerateResourceOptions) => {
+      await generateResource(name, options);
+    });
+
+  program
+    .command("add")
+    .description("Enable a feature in an existing project")
+    .addArgument(
+      new Argument("<feature>", "feature to enable").choices(FEATURES)
+    )
+    .addOption(
+      new Option(
+        "--validation-library <library>",
+        "validation library used by the validation feature"
+      ).choices(VALIDATION_LIBRARIES)
+    )
+    .addOption(
+      new Option(
+        "--auth-strategy <strategy>",
+        "authentication strategy used by the auth feature"
+      ).choices(AUTH_STRATEGIES)
+    )
+    .option("-y, --yes", "use defaults for every answer not given as a flag")
+    .action(async (feature: Feature, options: AddFeatureOptions) => {
+      await addFeature(feature, options);
+    });
+
+  program
+    .command("upgrade")
+    .description(
+      "Merge the output of this version of rest-generate into an existing project"
+    )
+    .action(async () => {
+      await upgradeProject();
+    });
+
   // If no arguments, show help
   if (process.argv.length === 2) {
     program.help();
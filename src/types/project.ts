@@ -1,52 +1,69 @@
 /**
  * Framework options supported by the generator
  */
-export type Framework = "express";
-/* Commented out for now, to be added back later
-  | "fastify" 
-  | "koa"
-  */
+export const FRAMEWORKS = ["express", "fastify", "koa"] as const;
+export type Framework = (typeof FRAMEWORKS)[number];
 
 /**
  * Database options supported by the generator
  */
-export type Database = "mongodb" | "none";
-/* Commented out for now, to be added back later
-  | "postgres" 
-  | "mysql" 
-  | "sqlite" 
-  */
+export const DATABASES = [
+  "mongodb",
+  "postgres",
+  "mysql",
+  "sqlite",
+  "none",
+] as const;
+export type Database = (typeof DATABASES)[number];
 
 /**
  * ORM options supported by the generator
  */
-export type ORM = "mongoose" | "none";
-/* Commented out for now, to be added back later
-  | "prisma" 
-  | "sequelize" 
-  | "typeorm" 
-  | "drizzle" 
-  */
+export const ORMS = [
+  "mongoose",
+  "prisma",
+  "sequelize",
+  "typeorm",
+  "drizzle",
+  "none",
+] as const;
+export type ORM = (typeof ORMS)[number];
 
 /**
  * TypeScript or JavaScript option
  */
-export type Language = "typescript" | "javascript";
+export const LANGUAGES = ["typescript", "javascript"] as const;
+export type Language = (typeof LANGUAGES)[number];
 
 /**
  * Validation library options
  */
-export type ValidationLibrary = "joi" | "zod";
+export const VALIDATION_LIBRARIES = ["joi", "zod"] as const;
+export type ValidationLibrary = (typeof VALIDATION_LIBRARIES)[number];
 
 /**
  * Authentication strategy options
  */
-export type AuthStrategy = "jwt" | "session" | "oauth";
+export const AUTH_STRATEGIES = ["jwt", "session", "oauth"] as const;
+export type AuthStrategy = (typeof AUTH_STRATEGIES)[number];
+
+/**
+ * Package managers that can install the dependencies of a project
+ */
+export const PACKAGE_MANAGERS = ["npm", "pnpm", "yarn", "bun"] as const;
+export type PackageManager = (typeof PACKAGE_MANAGERS)[number];
 
 /**
  * Feature options that can be added to a project
  */
-export type Feature = "auth" | "validation" | "swagger" | "docker" | "tests";
+export const FEATURES = [
+  "auth",
+  "validation",
+  "swagger",
+  "docker",
+  "tests",
+] as const;
+export type Feature = (typeof FEATURES)[number];
 
 /**
  * Configuration options for project generation
@@ -68,4 +85,12 @@ export interface ProjectOptions {
   validationLibrary?: ValidationLibrary;
   /** Authentication strategy if auth feature is selected */
   authStrategy?: AuthStrategy;
+  /** Directory with templates overriding the built-in ones */
+  templates?: string;
+  /** OpenAPI document the routes, validators and models are generated from */
+  openapi?: string;
+  /** npm registry (e.g. a local mirror) the dependency versions come from */
+  registry?: string;
+  /** Package manager used in scripts and instructions, npm by default */
+  packageManager?: PackageManager;
 }
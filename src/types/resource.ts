@@ -0,0 +1,33 @@
+/**
+ * Field types that can be used in a resource definition
+ */
+export const FIELD_TYPES = ["string", "number", "boolean", "date"] as const;
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+/**
+ * A single field of a generated resource
+ */
+export interface ResourceField {
+  /** Field name as used in the model and request bodies */
+  name: string;
+  /** Scalar type of the field (or of its items for arrays) */
+  type: FieldType;
+  /** Whether the field holds a list of values */
+  array: boolean;
+  /** Whether the field must be provided when creating a record */
+  required: boolean;
+  /** Whether no two records can have the same value */
+  unique?: boolean;
+  /** Whether a string field holds long text, stored without a length limit */
+  text?: boolean;
+}
+
+/**
+ * Definition of a resource (entity) to scaffold CRUD code for
+ */
+export interface ResourceDefinition {
+  /** Resource name as given by the user, e.g. "product" or "blog-post" */
+  name: string;
+  /** Fields of the resource */
+  fields: ResourceField[];
+}
@@ -0,0 +1,379 @@
+import fs from "fs-extra";
+import path from "path";
+import chalk from "chalk";
+import { select, confirm } from "@inquirer/prompts";
+import { createTwoFilesPatch } from "diff";
+import { MANIFEST_FILE } from "./manifest.js";
+
+/**
+ * What to do with a generated file that already exists with other content
+ */
+export const CONFLICT_POLICIES = [
+  "skip",
+  "overwrite",
+  "prompt",
+  "diff",
+] as const;
+export type ConflictPolicy = (typeof CONFLICT_POLICIES)[number];
+
+/**
+ * Files keyed by their path relative to the project root
+ */
+export type ProjectFiles = Record<string, string>;
+
+/**
+ * In-memory tree of a generated project, written to disk once it is complete
+ */
+export interface FileTree {
+  files: ProjectFiles;
+  /** Directories relative to the project root, created even when empty */
+  directories: string[];
+}
+
+/**
+ * Create an empty file tree
+ */
+export function createFileTree(): FileTree {
+  return { files: {}, directories: [] };
+}
+
+/**
+ * What happens to a generated file: it is new, replaces (or would replace)
+ * an existing file with other content, is kept as it is, or already has the
+ * generated content
+ */
+export type FileAction = "create" | "overwrite" | "skip" | "unchanged";
+
+export interface FileChange {
+  /** Path relative to the project root */
+  path: string;
+  action: FileAction;
+}
+
+/**
+ * Options deciding how generated files are written to the project
+ */
+export interface WriteOptions {
+  /** Only report what would be written */
+  dryRun?: boolean;
+  /** What to do with existing files that have other content (prompt by default) */
+  onConflict?: ConflictPolicy;
+}
+
+const ACTION_LABELS: Record<FileAction, string> = {
+  create: chalk.green("new"),
+  overwrite: chalk.yellow("changed"),
+  skip: chalk.gray("kept"),
+  unchanged: chalk.gray("unchanged"),
+};
+
+/**
+ * Compare the generated files with the files already in the project
+ * @returns The changes writing the files would make, existing files with
+ * other content being overwritten
+ */
+export async function planFiles(
+  projectDir: string,
+  files: ProjectFiles
+): Promise<FileChange[]> {
+  const changes: FileChange[] = [];
+
+  for (const [filePath, content] of Object.entries(files)) {
+    const target = path.join(projectDir, filePath);
+    let action: FileAction = "create";
+    if (await fs.pathExists(target)) {
+      const existing = await fs.readFile(target, "utf8");
+      action = existing === content ? "unchanged" : "overwrite";
+    }
+    changes.push({ path: filePath, action });
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Render the unified diff between an existing file and its generated content,
+ * colored for the terminal
+ */
+export function renderDiff(
+  filePath: string,
+  existing: string,
+  generated: string
+): string {
+  const patch = createTwoFilesPatch(
+    `a/${filePath}`,
+    `b/${filePath}`,
+    existing,
+    generated
+  );
+
+  return patch
+    .split("\n")
+    .filter((line) => !/^=+$/.test(line))
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) {
+        return chalk.bold(line);
+      }
+      if (line.startsWith("+")) {
+        return chalk.green(line);
+      }
+      if (line.startsWith("-")) {
+        return chalk.red(line);
+      }
+      if (line.startsWith("@@")) {
+        return chalk.cyan(line);
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Render the changes as a tree rooted at the project directory
+ * @param directories Directories to show even when they have no files
+ */
+export function renderFileTree(
+  root: string,
+  changes: FileChange[],
+  directories: string[] = []
+): string {
+  interface Node {
+    children: Map<string, Node>;
+    /** Set for files only */
+    action?: FileAction;
+  }
+  const tree: Node = { children: new Map() };
+
+  const addNode = (nodePath: string): Node => {
+    let node = tree;
+    for (const part of nodePath.split("/")) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(part, child);
+      }
+      node = child;
+    }
+    return node;
+  };
+
+  directories.forEach(addNode);
+  for (const change of changes) {
+    addNode(change.path).action = change.action;
+  }
+
+  const lines = [`${root}/`];
+  const walk = (node: Node, prefix: string) => {
+    // Directories first, then files, both in alphabetical order
+    const entries = [...node.children.entries()].sort(
+      ([nameA, a], [nameB, b]) =>
+        Number(!b.action) - Number(!a.action) || nameA.localeCompare(nameB)
+    );
+    entries.forEach(([name, child], index) => {
+      const isLast = index === entries.length - 1;
+      const branch = isLast ? "└── " : "├── ";
+      lines.push(
+        child.action
+          ? `${prefix}${branch}${name} (${ACTION_LABELS[child.action]})`
+          : `${prefix}${branch}${name}/`
+      );
+      walk(child, prefix + (isLast ? "    " : "│   "));
+    });
+  };
+  walk(tree, "");
+
+  return lines.join("\n");
+}
+
+/**
+ * Decide whether an existing file with other content is replaced
+ */
+async function resolveConflict(
+  filePath: string,
+  existing: string,
+  generated: string,
+  policy: ConflictPolicy
+): Promise<"overwrite" | "skip"> {
+  if (policy === "overwrite" || policy === "skip") {
+    return policy;
+  }
+
+  if (policy === "diff") {
+    console.log(renderDiff(filePath, existing, generated));
+    return (await confirm({
+      message: `Replace ${filePath}?`,
+      default: false,
+    }))
+      ? "overwrite"
+      : "skip";
+  }
+
+  for (;;) {
+    const answer = await select<"overwrite" | "skip" | "diff">({
+      message: `${filePath} already exists with other content.`,
+      choices: [
+        { name: "Keep the existing file", value: "skip" },
+        { name: "Overwrite it", value: "overwrite" },
+        { name: "Show the differences", value: "diff" },
+      ],
+    });
+    if (answer !== "diff") {
+      return answer;
+    }
+    console.log(renderDiff(filePath, existing, generated));
+  }
+}
+
+/**
+ * Create a directory and its missing parents
+ * @returns The directories that were created, outermost first
+ */
+async function createDirectory(dir: string): Promise<string[]> {
+  const missing: string[] = [];
+  for (
+    let current = dir;
+    !(await fs.pathExists(current));
+    current = path.dirname(current)
+  ) {
+    missing.unshift(current);
+  }
+
+  await fs.ensureDir(dir);
+  return missing;
+}
+
+/**
+ * Move staged files into an existing directory. If a move fails, the files
+ * and directories created so far are removed and the replaced files restored.
+ */
+async function moveIntoPlace(
+  targetDir: string,
+  stagedDir: string,
+  backupDir: string,
+  tree: FileTree
+): Promise<void> {
+  const created: string[] = [];
+  const replaced: string[] = [];
+
+  try {
+    for (const dir of tree.directories) {
+      created.push(...(await createDirectory(path.join(targetDir, dir))));
+    }
+
+    for (const filePath of Object.keys(tree.files)) {
+      const target = path.join(targetDir, filePath);
+      created.push(...(await createDirectory(path.dirname(target))));
+
+      if (await fs.pathExists(target)) {
+        await fs.move(target, path.join(backupDir, filePath));
+        replaced.push(filePath);
+      } else {
+        created.push(target);
+      }
+      await fs.move(path.join(stagedDir, filePath), target);
+    }
+  } catch (error) {
+    // Innermost first, so directories are removed after their files
+    for (const createdPath of created.reverse()) {
+      await fs.remove(createdPath);
+    }
+    for (const filePath of replaced) {
+      await fs.move(
+        path.join(backupDir, filePath),
+        path.join(targetDir, filePath),
+        { overwrite: true }
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a file tree to a directory atomically: the tree is staged in a
+ * temporary directory next to it and only moved into place once every file is
+ * written. A new directory is moved as a whole; in an existing one, a failure
+ * rolls back the files moved so far.
+ */
+export async function commitFileTree(
+  targetDir: string,
+  tree: FileTree
+): Promise<void> {
+  const parentDir = path.dirname(targetDir);
+  await fs.ensureDir(parentDir);
+
+  // On the same file system as the target, so files are moved by renaming
+  const stagingDir = await fs.mkdtemp(
+    path.join(parentDir, `.${path.basename(targetDir)}-`)
+  );
+  const stagedDir = path.join(stagingDir, "files");
+
+  try {
+    for (const dir of tree.directories) {
+      await fs.ensureDir(path.join(stagedDir, dir));
+    }
+    for (const [filePath, content] of Object.entries(tree.files)) {
+      await fs.outputFile(path.join(stagedDir, filePath), content);
+    }
+
+    if (await fs.pathExists(targetDir)) {
+      await moveIntoPlace(
+        targetDir,
+        stagedDir,
+        path.join(stagingDir, "backup"),
+        tree
+      );
+    } else {
+      await fs.move(stagedDir, targetDir);
+    }
+  } finally {
+    await fs.remove(stagingDir);
+  }
+}
+
+/**
+ * Write a generated tree to the project, deciding for each existing file with
+ * other content whether it is replaced according to the conflict policy.
+ * Nothing is written in a dry run. Only the prompt and diff policies interact
+ * with the terminal.
+ * @returns What happened (or would happen) to each file
+ */
+export async function writeProjectFiles(
+  projectDir: string,
+  tree: FileTree,
+  writeOptions: WriteOptions = {}
+): Promise<FileChange[]> {
+  const { files } = tree;
+  const changes = await planFiles(projectDir, files);
+
+  if (writeOptions.dryRun) {
+    return changes;
+  }
+
+  for (const change of changes) {
+    // The manifest records what the project is generated with now, even for
+    // the existing files that are kept
+    if (change.action !== "overwrite" || change.path === MANIFEST_FILE) {
+      continue;
+    }
+    const existing = await fs.readFile(
+      path.join(projectDir, change.path),
+      "utf8"
+    );
+    change.action = await resolveConflict(
+      change.path,
+      existing,
+      files[change.path],
+      writeOptions.onConflict ?? "prompt"
+    );
+  }
+
+  const written: FileTree = { files: {}, directories: tree.directories };
+  for (const change of changes) {
+    if (change.action === "create" || change.action === "overwrite") {
+      written.files[change.path] = files[change.path];
+    }
+  }
+  await commitFileTree(projectDir, written);
+
+  return changes;
+}
@@ -0,0 +1,95 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { hashContent } from "./manifest.js";
+
+const execFilePromise = promisify(execFile);
+
+// Commits searched for an earlier version of a file
+const MAX_COMMITS = 100;
+
+/**
+ * Run a git command in a directory
+ * @returns Its output, or null if git is not installed, the directory is not
+ * a repository or the command fails
+ */
+async function git(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFilePromise("git", args, {
+      cwd,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the version of a file with the given hash (as recorded in the
+ * manifest) in the git history of the project
+ * @param filePath Path relative to the project root
+ * @returns The content of that version, or null if no commit has it
+ */
+export async function findFileVersion(
+  projectDir: string,
+  filePath: string,
+  hash: string
+): Promise<string | null> {
+  const commits = await git(projectDir, [
+    "rev-list",
+    `--max-count=${MAX_COMMITS}`,
+    "HEAD",
+    "--",
+    filePath,
+  ]);
+  if (!commits) {
+    return null;
+  }
+
+  for (const commit of commits.split("\n").filter(Boolean)) {
+    // "./" makes the path relative to the project, not the repository root
+    const content = await git(projectDir, ["show", `${commit}:./${filePath}`]);
+    if (content !== null && hashContent(content) === hash) {
+      return content;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a directory is inside a git working tree
+ */
+export async function isInsideRepository(dir: string): Promise<boolean> {
+  return (
+    (await git(dir, ["rev-parse", "--is-inside-work-tree"]))?.trim() === "true"
+  );
+}
+
+/**
+ * Create a git repository in a directory and commit all of its files
+ * @throws If git is not installed or a command fails, e.g. because no author
+ * identity is configured
+ */
+export async function initRepository(
+  dir: string,
+  message: string
+): Promise<void> {
+  for (const args of [
+    ["init"],
+    ["add", "--all"],
+    ["commit", "--quiet", "--message", message],
+  ]) {
+    try {
+      await execFilePromise("git", args, { cwd: dir });
+    } catch (error) {
+      const { code, stderr } = error as NodeJS.ErrnoException & {
+        stderr?: string;
+      };
+      throw new Error(
+        code === "ENOENT"
+          ? "git is not installed or not in the PATH."
+          : `git ${args[0]} failed: ${stderr?.trim() || (error as Error).message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ProjectOptions } from "../types/project.js";
+import { REQUIRED_PROJECT_OPTIONS, validateProjectOptions } from "./options.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Location of the manifest in generated projects
+ */
+export const MANIFEST_FILE = ".rest-generate.json";
+
+/**
+ * What a project was generated with, written to its manifest
+ */
+export interface ProjectManifest {
+  /** Version of rest-generate that generated the project */
+  version: string;
+  /** The options the project was generated with */
+  options: ProjectOptions;
+  /** When the project was generated, which dates its migrations */
+  createdAt?: string;
+  /** SHA-256 of the generated content of each file, keyed by path */
+  files: Record<string, string>;
+}
+
+/**
+ * Get the version of rest-generate from its package.json
+ */
+export function getGeneratorVersion(): string {
+  const packageJson = fs.readJSONSync(
+    path.join(__dirname, "../../package.json")
+  );
+  return packageJson.version;
+}
+
+/**
+ * Hash the content of a file the way the manifest records it
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Create the manifest of a project from the files generated for it
+ */
+export function createManifest(
+  options: ProjectOptions,
+  files: Record<string, string>,
+  createdAt: Date = new Date()
+): ProjectManifest {
+  const filePaths = Object.keys(files).filter(
+    (filePath) => filePath !== MANIFEST_FILE
+  );
+
+  return {
+    version: getGeneratorVersion(),
+    options,
+    createdAt: createdAt.toISOString(),
+    files: Object.fromEntries(
+      filePaths.map((filePath) => [filePath, hashContent(files[filePath])])
+    ),
+  };
+}
+
+/**
+ * Serialize a manifest to the content of its file
+ */
+export function renderManifest(manifest: ProjectManifest): string {
+  // Keep the files sorted so the manifest diffs well
+  const files = Object.fromEntries(
+    Object.entries(manifest.files).sort(([a], [b]) => a.localeCompare(b))
+  );
+  return `${JSON.stringify({ ...manifest, files }, null, 2)}\n`;
+}
+
+/**
+ * Read the manifest of a project
+ * @returns The manifest, or null for projects generated without one
+ */
+export async function readManifest(
+  projectDir: string
+): Promise<ProjectManifest | null> {
+  const manifestPath = path.join(projectDir, MANIFEST_FILE);
+  if (!(await fs.pathExists(manifestPath))) {
+    return null;
+  }
+
+  let raw: Partial<ProjectManifest>;
+  try {
+    raw = await fs.readJSON(manifestPath);
+  } catch (error) {
+    throw new Error(
+      `Could not parse ${MANIFEST_FILE}: ${(error as Error).message}`
+    );
+  }
+
+  const options = validateProjectOptions(raw.options, MANIFEST_FILE);
+  const missing = REQUIRED_PROJECT_OPTIONS.filter(
+    (key) => options[key] === undefined
+  );
+  if (missing.length > 0) {
+    throw new Error(`${MANIFEST_FILE} is missing ${missing.join(", ")}.`);
+  }
+
+  return {
+    version: typeof raw.version === "string" ? raw.version : "unknown",
+    options: options as ProjectOptions,
+    createdAt: typeof raw.createdAt === "string" ? raw.createdAt : undefined,
+    files: raw.files ?? {},
+  };
+}
+
+/**
+ * Get the generated files the user changed or deleted since they were
+ * generated (or last updated by rest-generate)
+ */
+export async function getModifiedFiles(
+  projectDir: string,
+  manifest: ProjectManifest
+): Promise<string[]> {
+  const modified: string[] = [];
+
+  for (const [filePath, hash] of Object.entries(manifest.files)) {
+    const fullPath = path.join(projectDir, filePath);
+    if (
+      !(await fs.pathExists(fullPath)) ||
+      hashContent(await fs.readFile(fullPath, "utf8")) !== hash
+    ) {
+      modified.push(filePath);
+    }
+  }
+
+  return modified;
+}
+
+/**
+ * Get the time a project was generated, to generate it again the same way
+ */
+export function getCreatedAt(manifest: ProjectManifest | null): Date {
+  const createdAt = manifest?.createdAt && new Date(manifest.createdAt);
+  return createdAt && !isNaN(createdAt.getTime()) ? createdAt : new Date();
+}
+
+/**
+ * Get the time the project in a directory was generated, or the current time
+ * when it has no readable manifest, so generating it again gives the same
+ * migrations and manifest
+ */
+export async function readCreatedAt(projectDir: string): Promise<Date> {
+  return getCreatedAt(await readManifest(projectDir).catch(() => null));
+}
+
+/**
+ * Record the current content of files written by rest-generate in the
+ * manifest of a project, so they don't count as modified by the user
+ * @param filePaths Paths relative to the project root
+ */
+export async function recordFiles(
+  projectDir: string,
+  manifest: ProjectManifest,
+  filePaths: string[]
+): Promise<void> {
+  for (const filePath of filePaths) {
+    manifest.files[filePath] = hashContent(
+      await fs.readFile(path.join(projectDir, filePath), "utf8")
+    );
+  }
+
+  await fs.writeFile(
+    path.join(projectDir, MANIFEST_FILE),
+    renderManifest(manifest)
+  );
+}
@@ -0,0 +1,289 @@
+import { diffArrays } from "diff";
+
+/**
+ * Helpers to carry the changes between two generated versions of a file over
+ * to the version in the project, which the user may have edited since it was
+ * generated
+ */
+
+/**
+ * Sections of package.json merged key by key
+ */
+const PACKAGE_JSON_SECTIONS = [
+  "scripts",
+  "dependencies",
+  "devDependencies",
+] as const;
+
+/**
+ * Outcome of a three-way merge
+ */
+export interface MergeResult {
+  content: string;
+  /** Number of conflicts written with markers in the content */
+  conflicts: number;
+}
+
+/**
+ * Options of a three-way merge
+ */
+export interface MergeOptions {
+  /** Write every region changed on either side as a conflict */
+  conflictAll?: boolean;
+  /**
+   * Keep the lines both sides inserted at the same point, the project's
+   * first, instead of writing them as a conflict
+   */
+  keepInsertions?: boolean;
+}
+
+/**
+ * Split text into lines, keeping their line endings
+ */
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Map the lines of a base version to the lines they are kept as in another
+ * version, by their index
+ */
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  let baseIndex = 0;
+  let otherIndex = 0;
+
+  for (const part of diffArrays(base, other)) {
+    const count = part.value.length;
+    if (part.added) {
+      otherIndex += count;
+    } else if (part.removed) {
+      baseIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) {
+        matches.set(baseIndex + i, otherIndex + i);
+      }
+      baseIndex += count;
+      otherIndex += count;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Merge the changes made to a file by the user and by the generator since
+ * the version they both started from. Regions changed differently on both
+ * sides are written as conflicts, between git-style markers.
+ * @param base The content both versions started from
+ * @param current The content of the file in the project
+ * @param next The content generated now
+ * @param label Names the generated side of the conflicts
+ */
+export function mergeThreeWay(
+  base: string,
+  current: string,
+  next: string,
+  label: string,
+  { conflictAll = false, keepInsertions = false }: MergeOptions = {}
+): MergeResult {
+  const baseLines = splitLines(base);
+  const currentLines = splitLines(current);
+  const nextLines = splitLines(next);
+  const currentMatches = matchLines(baseLines, currentLines);
+  const nextMatches = matchLines(baseLines, nextLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let c = 0;
+  let n = 0;
+
+  // Lines of the base kept on both sides split the files into regions
+  while (
+    b < baseLines.length ||
+    c < currentLines.length ||
+    n < nextLines.length
+  ) {
+    if (currentMatches.get(b) === c && nextMatches.get(b) === n) {
+      output.push(baseLines[b]);
+      b++;
+      c++;
+      n++;
+      continue;
+    }
+
+    let end = b;
+    while (
+      end < baseLines.length &&
+      !(currentMatches.has(end) && nextMatches.has(end))
+    ) {
+      end++;
+    }
+    const currentEnd = currentMatches.get(end) ?? currentLines.length;
+    const nextEnd = nextMatches.get(end) ?? nextLines.length;
+
+    const baseRegion = baseLines.slice(b, end).join("");
+    const currentRegion = currentLines.slice(c, currentEnd).join("");
+    const nextRegion = nextLines.slice(n, nextEnd).join("");
+
+    if (currentRegion === nextRegion) {
+      output.push(nextRegion);
+    } else if (!conflictAll && currentRegion === baseRegion) {
+      output.push(nextRegion);
+    } else if (!conflictAll && nextRegion === baseRegion) {
+      output.push(currentRegion);
+    } else if (!conflictAll && keepInsertions && baseRegion === "") {
+      output.push(currentRegion, nextRegion);
+    } else {
+      conflicts++;
+      const withNewline = (region: string) =>
+        region === "" || region.endsWith("\n") ? region : `${region}\n`;
+      output.push(
+        "<<<<<<< current\n",
+        withNewline(currentRegion),
+        "=======\n",
+        withNewline(nextRegion),
+        `>>>>>>> ${label}\n`
+      );
+    }
+
+    b = end;
+    c = currentEnd;
+    n = nextEnd;
+  }
+
+  return { content: output.join(""), conflicts };
+}
+
+/**
+ * Write every region that differs between the file in the project and its
+ * generated content as a conflict, for files whose original generated content
+ * is unknown
+ * @param label Names the generated side of the conflicts
+ */
+export function markConflicts(
+  current: string,
+  next: string,
+  label: string
+): MergeResult {
+  // Lines common to both versions stand in for the unknown base, and no side
+  // is assumed to be unchanged
+  const common = diffArrays(splitLines(current), splitLines(next))
+    .filter((part) => !part.added && !part.removed)
+    .flatMap((part) => part.value)
+    .join("");
+  return mergeThreeWay(common, current, next, label, { conflictAll: true });
+}
+
+/**
+ * Apply the changes between two generated versions of a file to the file in
+ * the project
+ * @param base The content generated before
+ * @param next The content generated now
+ * @param current The content of the file in the project
+ * @returns The merged content, or null if the user changed the lines the
+ * generator changes
+ */
+export function mergeGeneratedChanges(
+  base: string,
+  next: string,
+  current: string
+): string | null {
+  if (current === base) {
+    return next;
+  }
+  if (base === next) {
+    return current;
+  }
+
+  // Features and resources insert their imports and routes at the same
+  // points of a file, so both insertions are kept
+  const { content, conflicts } = mergeThreeWay(base, current, next, "", {
+    keepInsertions: true,
+  });
+  return conflicts > 0 ? null : content;
+}
+
+/**
+ * Merge the changes between two generated versions of package.json: added
+ * scripts and dependencies are added, and changed or removed ones updated
+ * unless the user changed them too
+ * @returns The merged content, or null if the project's package.json is not
+ * valid JSON
+ */
+export function mergePackageJson(
+  base: string,
+  next: string,
+  current: string
+): string | null {
+  let packageJson: Record<string, Record<string, string> | undefined>;
+  try {
+    packageJson = JSON.parse(current);
+  } catch {
+    return null;
+  }
+  const baseJson = JSON.parse(base);
+  const nextJson = JSON.parse(next);
+
+  let changed = false;
+  for (const section of PACKAGE_JSON_SECTIONS) {
+    const entries: Record<string, string> = { ...packageJson[section] };
+    for (const [name, value] of Object.entries<string>(
+      nextJson[section] ?? {}
+    )) {
+      const isUnchanged =
+        !(name in entries) || entries[name] === baseJson[section]?.[name];
+      if (isUnchanged && entries[name] !== value) {
+        entries[name] = value;
+        changed = true;
+      }
+    }
+    for (const [name, value] of Object.entries<string>(
+      baseJson[section] ?? {}
+    )) {
+      const isRemoved = !(name in (nextJson[section] ?? {}));
+      if (isRemoved && entries[name] === value) {
+        delete entries[name];
+        changed = true;
+      }
+    }
+    if (Object.keys(entries).length > 0) {
+      packageJson[section] = entries;
+    }
+  }
+
+  // Keep the user's formatting when there is nothing to change
+  return changed ? `${JSON.stringify(packageJson, null, 2)}\n` : current;
+}
+
+/**
+ * Merge the changes between two generated versions of a .env file: the lines
+ * added to the generated file are appended, except variables the project
+ * already defines
+ */
+export function mergeEnvFile(
+  base: string,
+  next: string,
+  current: string
+): string {
+  const variableOf = (line: string) => line.match(/^\s*([\w.]+)\s*=/)?.[1];
+  const baseLines = new Set(base.split("\n"));
+  const defined = new Set(current.split("\n").map(variableOf));
+
+  const added = next
+    .split("\n")
+    .filter((line) => line.trim() !== "" && !baseLines.has(line))
+    .filter((line) => {
+      const variable = variableOf(line);
+      return !variable || !defined.has(variable);
+    });
+
+  // Only comments are left when every added variable is already defined
+  if (added.every((line) => !variableOf(line))) {
+    return current;
+  }
+  return current.trim()
+    ? `${current.trimEnd()}\n\n${added.join("\n")}\n`
+    : `${added.join("\n")}\n`;
+}
@@ -0,0 +1,1204 @@
+import fs from "fs-extra";
+import YAML from "yaml";
+import { AuthStrategy, ProjectOptions } from "../types/project.js";
+import {
+  FieldType,
+  ResourceDefinition,
+  ResourceField,
+} from "../types/resource.js";
+import {
+  cast,
+  getExtension,
+  getModelFiles,
+  getResourceNames,
+  getRouteRegistration,
+  getUserResource,
+  Param,
+  renderDoc,
+  renderParams,
+  renderTypeImport,
+  RESERVED_FIELDS,
+  ResourceNames,
+  RouteRegistration,
+  SESSION_RESOURCE,
+  validateResourceName,
+} from "./resource.js";
+import { compileTemplate, renderTemplate } from "./templates.js";
+
+/**
+ * A schema of an OpenAPI document, or a reference to one. Only the keywords
+ * the generator reads are declared.
+ */
+export interface SchemaObject {
+  $ref?: string;
+  /** A list of types in OpenAPI 3.1, e.g. ["string", "null"] */
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  nullable?: boolean;
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  /** Marks a component schema as stored in the database */
+  "x-persisted"?: boolean;
+  [keyword: string]: unknown;
+}
+
+interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  schema?: SchemaObject;
+}
+
+interface RequestBodyObject {
+  $ref?: string;
+  required?: boolean;
+  content?: Record<string, { schema?: SchemaObject }>;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  security?: SecurityRequirement[];
+}
+
+interface SecuritySchemeObject {
+  type: string;
+  scheme?: string;
+  in?: string;
+}
+
+// Methods the routers are generated for. HEAD and OPTIONS requests are
+// answered by the frameworks.
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+type PathItemObject = Partial<Record<HttpMethod, OperationObject>> & {
+  parameters?: ParameterObject[];
+};
+
+interface Components {
+  schemas?: Record<string, SchemaObject>;
+  parameters?: Record<string, ParameterObject>;
+  requestBodies?: Record<string, RequestBodyObject>;
+  securitySchemes?: Record<string, SecuritySchemeObject>;
+}
+
+/**
+ * An OpenAPI 3 document, as far as the generator reads it
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  paths?: Record<string, PathItemObject>;
+  components?: Components;
+  security?: SecurityRequirement[];
+}
+
+/**
+ * An OpenAPI document a project is generated from
+ */
+export interface OpenApiSpec {
+  /** Name of the copy of the document in the project */
+  file: string;
+  /** Content of the document, copied as is */
+  source: string;
+  document: OpenApiDocument;
+}
+
+/**
+ * An operation of the document, handled by a generated controller function
+ */
+export interface OpenApiOperation {
+  /** Name of the handler, from the operationId */
+  name: string;
+  method: HttpMethod;
+  /** Path in the document, e.g. /pets/{petId} */
+  path: string;
+  /** Path in the router, e.g. /pets/:petId */
+  routePath: string;
+  summary: string;
+  pathParams: ParameterObject[];
+  queryParams: ParameterObject[];
+  body?: { schema: SchemaObject; required: boolean };
+  /** Whether the operation requires one of the security schemes */
+  secured: boolean;
+}
+
+/**
+ * The operations sharing a tag, which get a router and a controller. The
+ * operations without tags are grouped under "default".
+ */
+export interface OpenApiTag {
+  names: ResourceNames;
+  operations: OpenApiOperation[];
+}
+
+// Words that cannot name a generated handler
+const JS_RESERVED_WORDS = [
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "import",
+  "in",
+  "instanceof",
+  "new",
+  "null",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+];
+
+// Formats the Ajv instance of Fastify knows, the others are left out of the
+// route schemas
+const AJV_FORMATS = [
+  "date",
+  "time",
+  "date-time",
+  "duration",
+  "uri",
+  "uri-reference",
+  "url",
+  "email",
+  "hostname",
+  "ipv4",
+  "ipv6",
+  "regex",
+  "uuid",
+  "byte",
+  "int32",
+  "int64",
+  "float",
+  "double",
+  "password",
+  "binary",
+];
+
+// JSON schema keywords kept in the Fastify route schemas, as is. Annotations
+// such as `example` and the x- extensions are left out.
+const JSON_SCHEMA_KEYWORDS = [
+  "type",
+  "enum",
+  "const",
+  "nullable",
+  "minimum",
+  "maximum",
+  "multipleOf",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "minProperties",
+  "maxProperties",
+  "required",
+  "default",
+];
+
+/**
+ * Name of the copy of an OpenAPI document in a project, openapi.json for
+ * JSON documents and openapi.yaml otherwise
+ */
+export function getOpenApiFileName(file: string): string {
+  return /\.json$/i.test(file) ? "openapi.json" : "openapi.yaml";
+}
+
+/**
+ * Load an OpenAPI 3 document from a JSON or YAML file, and check that a
+ * project can be generated from it
+ * @param file Absolute path of the document
+ */
+export async function loadOpenApiSpec(file: string): Promise<OpenApiSpec> {
+  if (!(await fs.pathExists(file))) {
+    throw new Error(`OpenAPI document ${file} does not exist.`);
+  }
+
+  const source = await fs.readFile(file, "utf8");
+  const fileName = getOpenApiFileName(file);
+  let document: unknown;
+  try {
+    document = fileName.endsWith(".json")
+      ? JSON.parse(source)
+      : YAML.parse(source);
+  } catch (error) {
+    throw new Error(
+      `Could not parse the OpenAPI document ${file}: ${(error as Error).message}`
+    );
+  }
+
+  if (
+    typeof document !== "object" ||
+    document === null ||
+    Array.isArray(document)
+  ) {
+    throw new Error(`${file} does not contain an OpenAPI document.`);
+  }
+  const version = (document as { openapi?: unknown }).openapi;
+  if (typeof version !== "string" || !version.startsWith("3.")) {
+    throw new Error(
+      `${file} is not an OpenAPI 3 document${
+        "swagger" in document ? ", Swagger 2 documents are not supported" : ""
+      }.`
+    );
+  }
+
+  const spec = {
+    file: fileName,
+    source,
+    document: document as OpenApiDocument,
+  };
+
+  // Fail on what cannot be generated before anything is written
+  getOpenApiTags(spec.document);
+  getPersistedResources(spec.document);
+
+  return spec;
+}
+
+/**
+ * Resolve a reference to the components of the document
+ * @param components The components of the kind of the value
+ * @param kind The kind of the value, e.g. parameters
+ */
+function resolveReference<T extends { $ref?: string }>(
+  value: T,
+  components: Record<string, T> | undefined,
+  kind: keyof Components
+): T {
+  if (!value.$ref) {
+    return value;
+  }
+
+  const prefix = `#/components/${kind}/`;
+  const resolved = value.$ref.startsWith(prefix)
+    ? components?.[value.$ref.slice(prefix.length)]
+    : undefined;
+  if (!resolved || resolved === value) {
+    throw new Error(
+      `Cannot resolve ${value.$ref}, only references to ${prefix}<name> are supported.`
+    );
+  }
+  return resolveReference(resolved, components, kind);
+}
+
+/**
+ * Name of the component schema a reference points to, or null
+ */
+function getSchemaReference(ref: string): string | null {
+  const prefix = "#/components/schemas/";
+  return ref.startsWith(prefix) ? ref.slice(prefix.length) : null;
+}
+
+/**
+ * The component schema a schema refers to, or the schema itself when it is
+ * not a reference. Undefined for references outside of the components.
+ */
+function dereference(
+  document: OpenApiDocument,
+  schema: SchemaObject
+): SchemaObject | undefined {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const name = getSchemaReference(schema.$ref);
+  return name === null ? undefined : document.components?.schemas?.[name];
+}
+
+/**
+ * The properties of an object schema, including those of the schemas it is
+ * combined with by allOf
+ */
+function getObjectSchema(
+  document: OpenApiDocument,
+  schema: SchemaObject,
+  visiting: SchemaObject[] = []
+): { properties: Record<string, SchemaObject>; required: string[] } {
+  const object = {
+    properties: { ...schema.properties },
+    required: [...(schema.required ?? [])],
+  };
+  for (const part of schema.allOf ?? []) {
+    const resolved = dereference(document, part);
+    if (resolved && !visiting.includes(resolved)) {
+      const combined = getObjectSchema(document, resolved, [
+        ...visiting,
+        schema,
+      ]);
+      Object.assign(object.properties, combined.properties);
+      object.required.push(...combined.required);
+    }
+  }
+  return object;
+}
+
+/**
+ * Camel case identifier for a name of the document, e.g. getPetById for
+ * "get_pet_by_id" or "GET /pets/{id}"
+ */
+function toIdentifier(name: string): string | null {
+  const words = name.replace(/[^A-Za-z0-9]+/g, " ").trim();
+  return /^[A-Za-z]/.test(words) ? getResourceNames(words).camel : null;
+}
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+/**
+ * Get the operations of the document grouped by their first tag
+ */
+export function getOpenApiTags(document: OpenApiDocument): OpenApiTag[] {
+  const tags = new Map<string, OpenApiTag>();
+
+  for (const [path, item] of Object.entries(document.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!operation) {
+        continue;
+      }
+      const where = `${method.toUpperCase()} ${path}`;
+
+      const tagName = operation.tags?.[0] ?? "default";
+      const tagWords = tagName.replace(/[^A-Za-z0-9]+/g, " ").trim();
+      if (!/^[A-Za-z]/.test(tagWords)) {
+        throw new Error(
+          `Tag "${tagName}" of ${where} cannot name files, it must start with a letter.`
+        );
+      }
+      const names = getResourceNames(tagWords);
+      const tag = tags.get(names.kebab) ?? { names, operations: [] };
+      tags.set(names.kebab, tag);
+
+      const name = toIdentifier(operation.operationId ?? where);
+      if (!name || JS_RESERVED_WORDS.includes(name)) {
+        throw new Error(
+          `The operationId "${operation.operationId}" of ${where} cannot name a function.`
+        );
+      }
+      const duplicate = tag.operations.find((other) => other.name === name);
+      if (duplicate) {
+        throw new Error(
+          `${duplicate.method.toUpperCase()} ${
+            duplicate.path
+          } and ${where} would both be handled by ${name}, give them distinct operationIds.`
+        );
+      }
+
+      // Operation parameters override the parameters of the path
+      const parameters = new Map<string, ParameterObject>();
+      for (const parameter of [
+        ...(item.parameters ?? []),
+        ...(operation.parameters ?? []),
+      ]) {
+        const resolved = resolveReference(
+          parameter,
+          document.components?.parameters,
+          "parameters"
+        );
+        parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+      }
+
+      // Every parameter of the path is matched, declared or not
+      const pathParams = [...path.matchAll(/\{([^}]+)\}/g)].map(([, param]) => {
+        if (!isIdentifier(param)) {
+          throw new Error(
+            `The path parameter "${param}" of ${where} must be a valid identifier.`
+          );
+        }
+        return (
+          parameters.get(`path:${param}`) ?? {
+            name: param,
+            in: "path" as const,
+            required: true,
+            schema: { type: "string" },
+          }
+        );
+      });
+
+      const requirements = operation.security ?? document.security ?? [];
+
+      tag.operations.push({
+        name,
+        method,
+        path,
+        routePath: path.replace(/\{([^}]+)\}/g, ":$1"),
+        summary: (operation.summary ?? where)
+          .replace(/\*\//g, "*")
+          .replace(/\s+/g, " ")
+          .trim(),
+        pathParams,
+        queryParams: [...parameters.values()].filter(
+          (parameter) => parameter.in === "query"
+        ),
+        body: getRequestBody(document, operation),
+        // An empty requirement makes the security optional
+        secured:
+          requirements.length > 0 &&
+          requirements.every(
+            (requirement) => Object.keys(requirement).length > 0
+          ),
+      });
+    }
+  }
+
+  if (tags.size === 0) {
+    throw new Error("The OpenAPI document has no operations.");
+  }
+  return [...tags.values()];
+}
+
+/**
+ * Get the JSON schema of the request body of an operation, other content
+ * types are not validated
+ */
+function getRequestBody(
+  document: OpenApiDocument,
+  operation: OperationObject
+): OpenApiOperation["body"] {
+  if (!operation.requestBody) {
+    return undefined;
+  }
+
+  const body = resolveReference(
+    operation.requestBody,
+    document.components?.requestBodies,
+    "requestBodies"
+  );
+  const type = Object.keys(body.content ?? {}).find(
+    (candidate) =>
+      candidate === "application/json" || candidate.endsWith("+json")
+  );
+  const schema = type && body.content?.[type].schema;
+  return schema ? { schema, required: body.required === true } : undefined;
+}
+
+/**
+ * The authentication strategy matching the security schemes of the document:
+ * jwt for bearer tokens, session for cookies and oauth for OAuth 2 and
+ * OpenID Connect
+ */
+export function getOpenApiAuthStrategy(
+  document: OpenApiDocument
+): AuthStrategy | undefined {
+  for (const scheme of Object.values(
+    document.components?.securitySchemes ?? {}
+  )) {
+    if (scheme.type === "http" && scheme.scheme?.toLowerCase() === "bearer") {
+      return "jwt";
+    }
+    if (scheme.type === "apiKey" && scheme.in === "cookie") {
+      return "session";
+    }
+    if (scheme.type === "oauth2" || scheme.type === "openIdConnect") {
+      return "oauth";
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Main type of a schema, e.g. "string" for a nullable string of OpenAPI 3.1
+ */
+function getSchemaType(schema: SchemaObject): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((type) => type !== "null");
+  }
+  if (schema.type) {
+    return schema.type;
+  }
+  return schema.properties ? "object" : schema.items ? "array" : undefined;
+}
+
+function isNullable(schema: SchemaObject): boolean {
+  return (
+    schema.nullable === true ||
+    (Array.isArray(schema.type) && schema.type.includes("null"))
+  );
+}
+
+/**
+ * Type of the field storing values of a schema, null when a model cannot
+ * store them
+ */
+function getFieldType(schema: SchemaObject): FieldType | null {
+  switch (getSchemaType(schema)) {
+    case "string":
+      return schema.format === "date" || schema.format === "date-time"
+        ? "date"
+        : "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the resources stored for the component schemas marked with
+ * `x-persisted: true`. Their scalar properties, and lists of scalars, become
+ * the fields of the models. The other properties are skipped.
+ * @returns The resources, and the properties that were skipped
+ */
+export function getPersistedResources(document: OpenApiDocument): {
+  resources: ResourceDefinition[];
+  skipped: string[];
+} {
+  const resources: ResourceDefinition[] = [];
+  const skipped: string[] = [];
+
+  for (const [name, schema] of Object.entries(
+    document.components?.schemas ?? {}
+  )) {
+    if (schema["x-persisted"] !== true) {
+      continue;
+    }
+    validateResourceName(name);
+
+    const object = getObjectSchema(document, schema);
+    const fields: ResourceField[] = [];
+    for (const [field, property] of Object.entries(object.properties)) {
+      // The models already have an id and timestamps
+      if (RESERVED_FIELDS.includes(field)) {
+        continue;
+      }
+
+      const resolved = dereference(document, property);
+      const array =
+        resolved !== undefined && getSchemaType(resolved) === "array";
+      const item =
+        array && resolved.items
+          ? dereference(document, resolved.items)
+          : resolved;
+      const type = item && getFieldType(item);
+      if (!type || !isIdentifier(field)) {
+        skipped.push(`${name}.${field}`);
+        continue;
+      }
+
+      fields.push({
+        name: field,
+        type,
+        array,
+        required: object.required.includes(field),
+      });
+    }
+
+    resources.push({ name, fields });
+  }
+
+  return { resources, skipped };
+}
+
+/**
+ * Render a string as a single quoted literal
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function renderKey(key: string): string {
+  return isIdentifier(key) ? key : quote(key);
+}
+
+/**
+ * Render a JSON value as a JavaScript literal, on several lines when it does
+ * not fit on a short one
+ */
+function renderLiteral(value: unknown, indent = ""): string {
+  if (typeof value === "string") {
+    return quote(value);
+  }
+  if (typeof value !== "object" || value === null) {
+    return String(value);
+  }
+
+  const inner = `${indent}  `;
+  const entries = Array.isArray(value)
+    ? value.map((item) => renderLiteral(item, inner))
+    : Object.entries(value).map(
+        ([key, item]) => `${renderKey(key)}: ${renderLiteral(item, inner)}`
+      );
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{ ", " }"];
+  if (entries.length === 0) {
+    return Array.isArray(value) ? "[]" : "{}";
+  }
+
+  const inline = `${open}${entries.join(", ")}${close}`;
+  if (!inline.includes("\n") && inline.length <= 60) {
+    return inline;
+  }
+  return `${open.trim()}\n${entries
+    .map((entry) => `${inner}${entry},`)
+    .join("\n")}\n${indent}${close.trim()}`;
+}
+
+/**
+ * Render the properties of an object schema on their own lines
+ * @param renderProperty Render the schema of a property, given whether it is
+ * required and the indentation of its line
+ */
+function renderProperties(
+  schema: SchemaObject,
+  indent: string,
+  renderProperty: (
+    property: SchemaObject,
+    required: boolean,
+    indent: string
+  ) => string
+): string {
+  const inner = `${indent}  `;
+  return `{\n${Object.entries(schema.properties ?? {})
+    .map(
+      ([key, property]) =>
+        `${inner}${renderKey(key)}: ${renderProperty(
+          property,
+          schema.required?.includes(key) ?? false,
+          inner
+        )},`
+    )
+    .join("\n")}\n${indent}}`;
+}
+
+/**
+ * How a schema is rendered as a validator
+ */
+interface ValidatorContext {
+  /** The variable holding a component schema, null when none can be used */
+  reference: (name: string) => string | null;
+  /** Whether values are strings to convert, as in paths and query strings */
+  coerce: boolean;
+  indent: string;
+}
+
+/**
+ * Render a schema of the document as a Zod or Joi validator
+ */
+type SchemaRenderer = (
+  schema: SchemaObject,
+  context: ValidatorContext
+) => string;
+
+/**
+ * Render the limits of a value, which both Zod and Joi declare with min and
+ * max
+ */
+function renderLimits(min?: number, max?: number): string {
+  return `${min !== undefined ? `.min(${min})` : ""}${
+    max !== undefined ? `.max(${max})` : ""
+  }`;
+}
+
+function renderPattern(schema: SchemaObject, method: string): string {
+  return schema.pattern
+    ? `.${method}(new RegExp(${quote(schema.pattern)}))`
+    : "";
+}
+
+/**
+ * Compile the template of the validation library of a project, openapi/zod
+ * or openapi/joi. It renders a schema of the document, and the schemas in it
+ * with `renderSchema`, given the changes to the context of their validators.
+ */
+async function compileSchemaRenderer(
+  options: ProjectOptions
+): Promise<SchemaRenderer> {
+  const template = await compileTemplate(
+    `openapi/${options.validationLibrary}.ejs`,
+    options
+  );
+
+  const render: SchemaRenderer = (schema, context) =>
+    template({
+      schema,
+      type: getSchemaType(schema),
+      nullable: isNullable(schema),
+      coerce: context.coerce,
+      reference: (ref: string) => {
+        const name = getSchemaReference(ref);
+        return name === null ? null : context.reference(name);
+      },
+      renderSchema: (
+        child: SchemaObject,
+        changes: Partial<ValidatorContext> = {}
+      ) => render(child, { ...context, ...changes }),
+      renderLiteral,
+      renderLimits,
+      renderPattern: (method: string) => renderPattern(schema, method),
+      renderProperties: (
+        renderProperty: Parameters<typeof renderProperties>[2]
+      ) => renderProperties(schema, context.indent, renderProperty),
+    });
+  return render;
+}
+
+/**
+ * Get the names of the component schemas a schema references
+ */
+function getReferences(schema: SchemaObject, names = new Set<string>()) {
+  const name = schema.$ref && getSchemaReference(schema.$ref);
+  if (name) {
+    names.add(name);
+  }
+  const children = [
+    ...Object.values(schema.properties ?? {}),
+    ...(schema.items ? [schema.items] : []),
+    ...(typeof schema.additionalProperties === "object"
+      ? [schema.additionalProperties]
+      : []),
+    ...(schema.allOf ?? []),
+    ...(schema.oneOf ?? []),
+    ...(schema.anyOf ?? []),
+  ];
+  children.forEach((child) => getReferences(child, names));
+  return names;
+}
+
+/**
+ * Variable holding the validator of a component schema, e.g. newPetSchema
+ */
+function getComponentVariable(name: string): string {
+  return `${toIdentifier(name) ?? "component"}Schema`;
+}
+
+/**
+ * Render the validators of the component schemas, each declared after the
+ * schemas it references. A reference closing a cycle is not validated.
+ */
+function renderComponentValidators(
+  options: ProjectOptions,
+  document: OpenApiDocument,
+  renderSchema: SchemaRenderer
+): Promise<string> {
+  const schemas = document.components?.schemas ?? {};
+  const sorted: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (name: string) => {
+    if (sorted.includes(name) || visiting.has(name) || !(name in schemas)) {
+      return;
+    }
+    visiting.add(name);
+    getReferences(schemas[name]).forEach(visit);
+    visiting.delete(name);
+    sorted.push(name);
+  };
+  Object.keys(schemas).forEach(visit);
+
+  const declared = new Set<string>();
+  const components = sorted.map((name) => {
+    const validator = renderSchema(schemas[name], {
+      reference: (other) =>
+        declared.has(other) ? getComponentVariable(other) : null,
+      coerce: false,
+      indent: "",
+    });
+    declared.add(name);
+    return { variable: getComponentVariable(name), validator };
+  });
+
+  return renderTemplate("openapi/components.ejs", options, { components });
+}
+
+/**
+ * Whether a request to an operation has parts to validate
+ */
+function hasRequestParts(operation: OpenApiOperation): boolean {
+  return (
+    operation.pathParams.length > 0 ||
+    operation.queryParams.length > 0 ||
+    operation.body !== undefined
+  );
+}
+
+/**
+ * The operations of a tag whose requests are validated, by the validate
+ * middleware or by Fastify with the route schemas
+ */
+function getValidatedOperations(
+  options: ProjectOptions,
+  tag: OpenApiTag
+): OpenApiOperation[] {
+  const validated =
+    options.features.includes("validation") &&
+    (options.framework === "fastify" ||
+      options.validationLibrary !== undefined);
+  return validated ? tag.operations.filter(hasRequestParts) : [];
+}
+
+/**
+ * Name of the request validated before an operation, e.g. getPetByIdRequest
+ */
+function getRequestName(operation: OpenApiOperation): string {
+  return `${operation.name}Request`;
+}
+
+/**
+ * Schema of the parameters of an operation found in one location
+ */
+function getParametersSchema(parameters: ParameterObject[]): SchemaObject {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      parameters.map((parameter) => [
+        parameter.name,
+        parameter.schema ?? { type: "string" },
+      ])
+    ),
+    required: parameters
+      .filter((parameter) => parameter.in === "path" || parameter.required)
+      .map((parameter) => parameter.name),
+  };
+}
+
+/**
+ * Render the Zod or Joi schemas of the requests to the operations of a tag
+ */
+function renderTagValidator(
+  options: ProjectOptions,
+  tag: OpenApiTag,
+  operations: OpenApiOperation[],
+  renderSchema: SchemaRenderer
+): Promise<string> {
+  const components = new Set<string>();
+  const render = (schema: SchemaObject, coerce: boolean) =>
+    renderSchema(schema, {
+      reference: (name) => {
+        components.add(name);
+        return getComponentVariable(name);
+      },
+      coerce,
+      indent: "  ",
+    });
+
+  const requests = operations.map((operation) => ({
+    name: getRequestName(operation),
+    params:
+      operation.pathParams.length > 0
+        ? render(getParametersSchema(operation.pathParams), true)
+        : null,
+    query:
+      operation.queryParams.length > 0
+        ? render(getParametersSchema(operation.queryParams), true)
+        : null,
+    body: operation.body
+      ? {
+          validator: render(operation.body.schema, false),
+          required: operation.body.required,
+        }
+      : null,
+  }));
+
+  return renderOpenApiTemplate("openapi/validator.ejs", options, tag, {
+    requests,
+    components: [...components].map(getComponentVariable),
+  });
+}
+
+/**
+ * Convert a schema of the document to the JSON schema Fastify validates
+ * with: references are inlined, a reference closing a cycle accepts any
+ * value, and the keywords Ajv does not know are left out
+ */
+function toJsonSchema(
+  document: OpenApiDocument,
+  schema: SchemaObject,
+  visiting: string[] = []
+): Record<string, unknown> {
+  if (schema.$ref) {
+    const name = getSchemaReference(schema.$ref);
+    const resolved = name && document.components?.schemas?.[name];
+    return resolved && !visiting.includes(name)
+      ? toJsonSchema(document, resolved, [...visiting, name])
+      : {};
+  }
+
+  const convert = (child: SchemaObject) =>
+    toJsonSchema(document, child, visiting);
+  const result: Record<string, unknown> = {};
+  for (const keyword of JSON_SCHEMA_KEYWORDS) {
+    if (schema[keyword] !== undefined) {
+      result[keyword] = schema[keyword];
+    }
+  }
+  if (schema.format && AJV_FORMATS.includes(schema.format)) {
+    result.format = schema.format;
+  }
+  // OpenAPI 3.0 marks exclusive limits with booleans
+  for (const [exclusive, limit] of [
+    ["exclusiveMinimum", "minimum"],
+    ["exclusiveMaximum", "maximum"],
+  ]) {
+    if (typeof schema[exclusive] === "number") {
+      result[exclusive] = schema[exclusive];
+    } else if (schema[exclusive] === true && result[limit] !== undefined) {
+      result[exclusive] = result[limit];
+      delete result[limit];
+    }
+  }
+
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [
+        key,
+        convert(property),
+      ])
+    );
+  }
+  if (schema.items) {
+    result.items = convert(schema.items);
+  }
+  if (schema.additionalProperties !== undefined) {
+    result.additionalProperties =
+      typeof schema.additionalProperties === "object"
+        ? convert(schema.additionalProperties)
+        : schema.additionalProperties;
+  }
+  for (const keyword of ["allOf", "oneOf", "anyOf"] as const) {
+    if (schema[keyword]) {
+      result[keyword] = schema[keyword]?.map(convert);
+    }
+  }
+  return result;
+}
+
+/**
+ * Name of the route schema of an operation, e.g. getPetByIdSchema
+ */
+function getRouteSchemaName(operation: OpenApiOperation): string {
+  return `${operation.name}Schema`;
+}
+
+/**
+ * Render the Fastify route schemas of the operations of a tag
+ */
+function renderTagJsonSchema(
+  options: ProjectOptions,
+  document: OpenApiDocument,
+  tag: OpenApiTag,
+  operations: OpenApiOperation[]
+): Promise<string> {
+  const schemas = operations.map((operation) => {
+    const schema: Record<string, unknown> = {};
+    if (operation.pathParams.length > 0) {
+      schema.params = toJsonSchema(
+        document,
+        getParametersSchema(operation.pathParams)
+      );
+    }
+    if (operation.queryParams.length > 0) {
+      schema.querystring = toJsonSchema(
+        document,
+        getParametersSchema(operation.queryParams)
+      );
+    }
+    if (operation.body) {
+      schema.body = toJsonSchema(document, operation.body.schema);
+    }
+    return { name: getRouteSchemaName(operation), schema };
+  });
+
+  return renderOpenApiTemplate("openapi/schema.ejs", options, tag, {
+    schemas,
+  });
+}
+
+/**
+ * Whether the validate middleware checks the requests of a project
+ */
+function hasValidator(options: ProjectOptions): boolean {
+  return (
+    options.features.includes("validation") &&
+    options.validationLibrary !== undefined &&
+    options.framework !== "fastify"
+  );
+}
+
+/**
+ * Render an import of named values, on several lines for more than one
+ */
+function renderImport(names: string[], from: string): string {
+  return names.length === 1
+    ? `import { ${names[0]} } from '${from}';`
+    : `import {\n${names.map((name) => `  ${name},`).join("\n")}\n} from '${from}';`;
+}
+
+/**
+ * Render a template generating code for a tag of the document. Besides the
+ * values every template gets, it gets the `tag`, the spellings of its name as
+ * `names`, its `operations`, the ones whose requests are `validated`, and
+ * helpers naming and importing the generated code.
+ * @param data Values computed by the generator for this template
+ */
+function renderOpenApiTemplate(
+  name: string,
+  options: ProjectOptions,
+  tag: OpenApiTag,
+  data: Record<string, unknown> = {}
+): Promise<string> {
+  return renderTemplate(name, options, {
+    tag,
+    names: tag.names,
+    operations: tag.operations,
+    validated: getValidatedOperations(options, tag),
+    requestName: getRequestName,
+    routeSchemaName: getRouteSchemaName,
+    renderImport,
+    renderLiteral,
+    renderDoc: (summary: string, params?: Param[]) =>
+      renderDoc(options, summary, params),
+    renderParams: (params: Param[]) => renderParams(options, params),
+    renderTypeImport: (types: string[], from: string) =>
+      renderTypeImport(options, types, from),
+    cast: (expression: string, type: string) => cast(options, expression, type),
+    ...data,
+  });
+}
+
+/**
+ * Get the import and mount lines of the routers of the tags. The routers
+ * declare the full paths of the document and are mounted at /api.
+ */
+export function getOpenApiRoutes(
+  options: ProjectOptions,
+  spec: OpenApiSpec
+): RouteRegistration[] {
+  return getOpenApiTags(spec.document).map((tag) =>
+    getRouteRegistration(options, { name: tag.names.kebab, fields: [] }, "")
+  );
+}
+
+/**
+ * Get the files generated from an OpenAPI document, keyed by their path
+ * relative to the project root: a router and a controller per tag, the
+ * request validators (or Fastify route schemas), and the models of the
+ * persisted schemas
+ */
+export async function getOpenApiFiles(
+  options: ProjectOptions,
+  spec: OpenApiSpec,
+  createdAt: Date = new Date()
+): Promise<Record<string, string>> {
+  const { document } = spec;
+  const ext = getExtension(options);
+  const tags = getOpenApiTags(document);
+  const { resources } = getPersistedResources(document);
+  const files: Record<string, string> = {};
+
+  // The authentication has its own routes and models
+  if (options.features.includes("auth") && options.authStrategy) {
+    const taken = [getUserResource(options.authStrategy), SESSION_RESOURCE].map(
+      (resource) => getResourceNames(resource.name).kebab
+    );
+    if (tags.some((tag) => tag.names.kebab === "auth")) {
+      throw new Error(
+        "The auth tag clashes with the routes of the auth feature, rename it."
+      );
+    }
+    const clash = resources.find((resource) =>
+      taken.includes(getResourceNames(resource.name).kebab)
+    );
+    if (clash) {
+      throw new Error(
+        `The persisted schema ${clash.name} clashes with the models of the auth feature, rename it.`
+      );
+    }
+  }
+
+  const renderSchema = hasValidator(options)
+    ? await compileSchemaRenderer(options)
+    : null;
+  if (renderSchema && document.components?.schemas) {
+    files[`src/validators/components.${ext}`] = await renderComponentValidators(
+      options,
+      document,
+      renderSchema
+    );
+  }
+
+  for (const tag of tags) {
+    const { kebab } = tag.names;
+    const validated = getValidatedOperations(options, tag);
+
+    if (validated.length > 0) {
+      if (options.framework === "fastify") {
+        files[`src/schemas/${kebab}.schema.${ext}`] = await renderTagJsonSchema(
+          options,
+          document,
+          tag,
+          validated
+        );
+      } else if (renderSchema) {
+        files[`src/validators/${kebab}.validator.${ext}`] =
+          await renderTagValidator(options, tag, validated, renderSchema);
+      }
+    }
+
+    files[`src/controllers/${kebab}.controller.${ext}`] =
+      await renderOpenApiTemplate("openapi/controller.ejs", options, tag);
+    files[`src/routes/${kebab}.routes.${ext}`] = await renderOpenApiTemplate(
+      "openapi/routes.ejs",
+      options,
+      tag
+    );
+
+    if (options.features.includes("tests")) {
+      files[`tests/unit/${kebab}.controller.test.${ext}`] =
+        await renderOpenApiTemplate(
+          "openapi/controller.test.ejs",
+          options,
+          tag
+        );
+    }
+  }
+
+  for (const resource of resources) {
+    Object.assign(files, await getModelFiles(options, resource, createdAt));
+  }
+
+  return files;
+}
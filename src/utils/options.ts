@@ -0,0 +1,304 @@
+import { InvalidArgumentError } from "commander";
+import {
+  AUTH_STRATEGIES,
+  Database,
+  DATABASES,
+  FEATURES,
+  FRAMEWORKS,
+  LANGUAGES,
+  ORM,
+  ORMS,
+  PACKAGE_MANAGERS,
+  VALIDATION_LIBRARIES,
+  AuthStrategy,
+  Feature,
+  ProjectOptions,
+  ValidationLibrary,
+} from "../types/project.js";
+
+// Keys that may appear in a serialized set of project options
+const PROJECT_OPTION_KEYS = [
+  "name",
+  "language",
+  "framework",
+  "database",
+  "orm",
+  "features",
+  "validationLibrary",
+  "authStrategy",
+  "templates",
+  "openapi",
+  "registry",
+  "packageManager",
+] as const;
+
+/**
+ * Options a project cannot be generated without
+ */
+export const REQUIRED_PROJECT_OPTIONS = [
+  "name",
+  "language",
+  "framework",
+  "database",
+  "orm",
+  "features",
+] as const;
+
+/**
+ * ORMs that can be used with each database, the first one being the default
+ */
+export const DATABASE_ORMS: Record<Database, readonly ORM[]> = {
+  // MongoDB is used through Mongoose
+  mongodb: ["mongoose"],
+  postgres: ["prisma"],
+  mysql: ["sequelize", "typeorm"],
+  // SQLite is used through Drizzle, without a database server
+  sqlite: ["drizzle"],
+  none: ["none"],
+};
+
+/**
+ * Choose the options a selected feature needs when they were not given, by
+ * prompting or by using a default
+ */
+export interface FeatureOptionChoosers {
+  validationLibrary: () => Promise<ValidationLibrary>;
+  authStrategy: () => Promise<AuthStrategy>;
+}
+
+/**
+ * Options that depend on the selected features
+ */
+export type FeatureOptions = Pick<
+  ProjectOptions,
+  "features" | "validationLibrary" | "authStrategy"
+>;
+
+/**
+ * Complete the options depending on the selected features, the same way for
+ * the CLI and the programmatic API: projects generated from an OpenAPI
+ * document serve it with the swagger feature, and the validation and auth
+ * features get a validation library and an auth strategy. Options no selected
+ * feature uses are dropped.
+ * @param choose Chooses the options a feature needs and was not given
+ * @param warn Receives the features added and the options ignored
+ */
+export async function resolveFeatureOptions(
+  options: FeatureOptions & Pick<ProjectOptions, "framework" | "openapi">,
+  choose: FeatureOptionChoosers,
+  warn: (message: string) => void
+): Promise<FeatureOptions> {
+  let { features, validationLibrary, authStrategy } = options;
+
+  // The OpenAPI document is served as the API documentation
+  if (options.openapi && !features.includes("swagger")) {
+    warn("Adding the swagger feature to serve the OpenAPI document.");
+    features = [...features, "swagger"];
+  }
+
+  // Fastify validates requests with its native JSON schema support
+  if (features.includes("validation") && options.framework !== "fastify") {
+    if (!validationLibrary) {
+      validationLibrary = await choose.validationLibrary();
+    }
+  } else if (validationLibrary) {
+    warn(
+      options.framework === "fastify"
+        ? "Ignoring the validation library because Fastify uses JSON schema validation."
+        : "Ignoring the validation library because the validation feature is not selected."
+    );
+    validationLibrary = undefined;
+  }
+
+  if (features.includes("auth")) {
+    if (!authStrategy) {
+      authStrategy = await choose.authStrategy();
+    }
+  } else if (authStrategy) {
+    warn(
+      "Ignoring the auth strategy because the auth feature is not selected."
+    );
+    authStrategy = undefined;
+  }
+
+  return { features, validationLibrary, authStrategy };
+}
+
+/**
+ * Check whether a value is one of the allowed values of a union
+ */
+export function isOneOf<T extends string>(
+  allowed: readonly T[],
+  value: unknown
+): value is T {
+  return typeof value === "string" && allowed.includes(value as T);
+}
+
+/**
+ * Format allowed values for use in error messages
+ */
+export function formatAllowed(allowed: readonly string[]): string {
+  return allowed.join(", ");
+}
+
+/**
+ * Parse a comma separated list of features passed on the command line.
+ * "none" (or an empty value) selects no features.
+ */
+export function parseFeatureList(value: string): Feature[] {
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "" && item !== "none");
+
+  const invalid = items.filter((item) => !isOneOf(FEATURES, item));
+  if (invalid.length > 0) {
+    throw new InvalidArgumentError(
+      `Invalid feature(s): ${invalid.join(", ")}. Allowed values: ${formatAllowed(
+        FEATURES
+      )}, none.`
+    );
+  }
+
+  // Remove duplicates while keeping the order given by the user
+  return Array.from(new Set(items as Feature[]));
+}
+
+/**
+ * Check whether a value is the http(s) URL of an npm registry
+ */
+export function isRegistryUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse the npm registry URL passed on the command line
+ */
+export function parseRegistryUrl(value: string): string {
+  if (!isRegistryUrl(value)) {
+    throw new InvalidArgumentError("The registry must be an http(s) URL.");
+  }
+  return value;
+}
+
+/**
+ * Validate a plain object (e.g. read from a preset file) against the
+ * ProjectOptions unions. Every field is optional so partial presets can be
+ * completed by flags or prompts.
+ * @param raw The value to validate
+ * @param source Where the value came from, used in error messages
+ */
+export function validateProjectOptions(
+  raw: unknown,
+  source: string
+): Partial<ProjectOptions> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${source} must contain an object of project options.`);
+  }
+
+  const values = raw as Record<string, unknown>;
+  const options: Partial<ProjectOptions> = {};
+
+  const unknownKeys = Object.keys(values).filter(
+    (key) => !(PROJECT_OPTION_KEYS as readonly string[]).includes(key)
+  );
+  if (unknownKeys.length > 0) {
+    throw new Error(
+      `${source} contains unknown option(s): ${unknownKeys.join(
+        ", "
+      )}. Allowed options: ${formatAllowed(PROJECT_OPTION_KEYS)}.`
+    );
+  }
+
+  const checkOne = <T extends string>(
+    key: keyof ProjectOptions,
+    allowed: readonly T[]
+  ): T | undefined => {
+    const value = values[key];
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!isOneOf(allowed, value)) {
+      throw new Error(
+        `${source}: invalid ${key} "${String(
+          value
+        )}". Allowed values: ${formatAllowed(allowed)}.`
+      );
+    }
+    return value;
+  };
+
+  if (values.name !== undefined) {
+    if (typeof values.name !== "string") {
+      throw new Error(`${source}: name must be a string.`);
+    }
+    options.name = values.name;
+  }
+
+  if (values.templates !== undefined) {
+    if (typeof values.templates !== "string") {
+      throw new Error(`${source}: templates must be a directory path.`);
+    }
+    options.templates = values.templates;
+  }
+
+  if (values.openapi !== undefined) {
+    if (typeof values.openapi !== "string") {
+      throw new Error(`${source}: openapi must be a file path.`);
+    }
+    options.openapi = values.openapi;
+  }
+
+  if (values.registry !== undefined) {
+    if (
+      typeof values.registry !== "string" ||
+      !isRegistryUrl(values.registry)
+    ) {
+      throw new Error(`${source}: registry must be an http(s) URL.`);
+    }
+    options.registry = values.registry;
+  }
+
+  options.language = checkOne("language", LANGUAGES);
+  options.framework = checkOne("framework", FRAMEWORKS);
+  options.database = checkOne("database", DATABASES);
+  options.orm = checkOne("orm", ORMS);
+  options.validationLibrary = checkOne(
+    "validationLibrary",
+    VALIDATION_LIBRARIES
+  );
+  options.authStrategy = checkOne("authStrategy", AUTH_STRATEGIES);
+  options.packageManager = checkOne("packageManager", PACKAGE_MANAGERS);
+
+  if (values.features !== undefined) {
+    if (!Array.isArray(values.features)) {
+      throw new Error(
+        `${source}: features must be a list. Allowed values: ${formatAllowed(
+          FEATURES
+        )}.`
+      );
+    }
+    const invalid = values.features.filter((item) => !isOneOf(FEATURES, item));
+    if (invalid.length > 0) {
+      throw new Error(
+        `${source}: invalid feature(s): ${invalid.join(
+          ", "
+        )}. Allowed values: ${formatAllowed(FEATURES)}.`
+      );
+    }
+    options.features = Array.from(new Set(values.features as Feature[]));
+  }
+
+  // Drop the fields that were not set so they don't override other sources
+  for (const key of Object.keys(options) as (keyof ProjectOptions)[]) {
+    if (options[key] === undefined) {
+      delete options[key];
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,115 @@
+import { spawn } from "child_process";
+import { PackageManager, ProjectOptions } from "../types/project.js";
+
+/**
+ * Lockfile each package manager writes when installing
+ */
+export const LOCKFILES: Record<PackageManager, string> = {
+  npm: "package-lock.json",
+  pnpm: "pnpm-lock.yaml",
+  yarn: "yarn.lock",
+  bun: "bun.lock",
+};
+
+/**
+ * Get the package manager of a project, npm unless another one was chosen
+ */
+export function getPackageManager(options: ProjectOptions): PackageManager {
+  return options.packageManager ?? "npm";
+}
+
+/**
+ * Get the command running a package.json script with the package manager of
+ * a project, e.g. `npm run dev` or `pnpm dev`
+ */
+export function getRunCommand(options: ProjectOptions, script: string): string {
+  const packageManager = getPackageManager(options);
+
+  switch (packageManager) {
+    case "npm":
+      // npm has shorthands for these scripts only
+      return script === "start" || script === "test"
+        ? `npm ${script}`
+        : `npm run ${script}`;
+    case "bun":
+      // `bun test` would run Bun's own test runner instead of the script
+      return `bun run ${script}`;
+    default:
+      return `${packageManager} ${script}`;
+  }
+}
+
+/**
+ * Get the command installing the dependencies of a project
+ */
+export function getInstallCommand(options: ProjectOptions): string {
+  return `${getPackageManager(options)} install`;
+}
+
+/**
+ * Get the command installing exactly the versions of the lockfile of a
+ * project, failing when it is out of date
+ */
+export function getFrozenInstallCommand(options: ProjectOptions): string {
+  const packageManager = getPackageManager(options);
+
+  return packageManager === "npm"
+    ? "npm ci"
+    : `${packageManager} install --frozen-lockfile`;
+}
+
+/**
+ * Get the command removing the development dependencies of an installed
+ * project. The install scripts are not run again, as the tools some of them
+ * need (e.g. the Prisma CLI) are development dependencies.
+ */
+export function getPruneCommand(options: ProjectOptions): string {
+  switch (getPackageManager(options)) {
+    case "npm":
+      return "npm prune --omit=dev";
+    case "pnpm":
+      return "pnpm prune --prod --ignore-scripts";
+    case "yarn":
+      return "yarn install --frozen-lockfile --production --ignore-scripts";
+    case "bun":
+      return "bun install --frozen-lockfile --production --ignore-scripts";
+  }
+}
+
+/**
+ * Install the dependencies of a project with its package manager, showing the
+ * output of the package manager
+ * @throws If the package manager cannot be run or fails
+ */
+export function installDependencies(
+  projectDir: string,
+  options: ProjectOptions
+): Promise<void> {
+  const packageManager = getPackageManager(options);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(packageManager, ["install"], {
+      cwd: projectDir,
+      stdio: "inherit",
+      // Package managers are .cmd scripts on Windows
+      shell: process.platform === "win32",
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) =>
+      reject(
+        new Error(
+          error.code === "ENOENT"
+            ? `${packageManager} is not installed or not in the PATH.`
+            : error.message
+        )
+      )
+    );
+    child.on("close", (code) =>
+      code === 0
+        ? resolve()
+        : reject(
+            new Error(`${packageManager} install exited with code ${code}.`)
+          )
+    );
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Helpers to make small, targeted edits to generated source files that the
+ * user may have changed since they were generated
+ */
+
+/**
+ * Insert an import statement after the last import of a source file.
+ * Returns the source unchanged if the import is already present.
+ */
+export function addImport(source: string, importLine: string): string {
+  if (source.includes(importLine)) {
+    return source;
+  }
+
+  const lines = source.split("\n");
+  let insertAt = 0;
+  let inImport = false;
+
+  lines.forEach((line, index) => {
+    if (/^import\s/.test(line)) {
+      inImport = true;
+    }
+    if (inImport && /;\s*$|^import\s+['"][^'"]+['"]\s*$/.test(line)) {
+      inImport = false;
+      insertAt = index + 1;
+    }
+  });
+
+  lines.splice(insertAt, 0, importLine);
+  return lines.join("\n");
+}
+
+/**
+ * Insert a line after the last line matching a pattern.
+ * Returns null if no line matches.
+ */
+export function insertAfterLast(
+  source: string,
+  pattern: RegExp,
+  line: string
+): string | null {
+  const lines = source.split("\n");
+  let index = -1;
+
+  lines.forEach((current, currentIndex) => {
+    if (pattern.test(current)) {
+      index = currentIndex;
+    }
+  });
+
+  if (index === -1) {
+    return null;
+  }
+
+  lines.splice(index + 1, 0, line);
+  return lines.join("\n");
+}
+
+/**
+ * Insert a line before the first line matching a pattern.
+ * Returns null if no line matches.
+ */
+export function insertBeforeFirst(
+  source: string,
+  pattern: RegExp,
+  line: string
+): string | null {
+  const lines = source.split("\n");
+  const index = lines.findIndex((current) => pattern.test(current));
+
+  if (index === -1) {
+    return null;
+  }
+
+  lines.splice(index, 0, line);
+  return lines.join("\n");
+}
@@ -0,0 +1,139 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import YAML from "yaml";
+import { ProjectOptions } from "../types/project.js";
+import { validateProjectOptions } from "./options.js";
+
+// File extensions a preset can be stored with, in lookup order
+const PRESET_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * A preset is a (possibly partial) set of project options without the
+ * project name, which always comes from the command line
+ */
+export type Preset = Partial<Omit<ProjectOptions, "name">>;
+
+/**
+ * Get the user-level directory where named presets are stored.
+ * REST_GENERATE_CONFIG_DIR overrides the platform default.
+ */
+export function getPresetsDir(): string {
+  if (process.env.REST_GENERATE_CONFIG_DIR) {
+    return path.join(process.env.REST_GENERATE_CONFIG_DIR, "presets");
+  }
+
+  const configHome =
+    process.platform === "win32"
+      ? process.env.APPDATA || path.join(os.homedir(), "AppData", "Roaming")
+      : process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+
+  return path.join(configHome, "rest-generate", "presets");
+}
+
+/**
+ * List the names of the presets saved in the user config directory
+ */
+export async function listPresets(): Promise<string[]> {
+  const presetsDir = getPresetsDir();
+  if (!(await fs.pathExists(presetsDir))) {
+    return [];
+  }
+
+  const files = await fs.readdir(presetsDir);
+  return files
+    .filter((file) => PRESET_EXTENSIONS.includes(path.extname(file)))
+    .map((file) => path.basename(file, path.extname(file)))
+    .sort();
+}
+
+/**
+ * Find the file for a preset given either as a path or as a saved preset name
+ */
+async function resolvePresetPath(preset: string): Promise<string> {
+  const asFile = path.resolve(process.cwd(), preset);
+  if (await fs.pathExists(asFile)) {
+    return asFile;
+  }
+
+  for (const extension of PRESET_EXTENSIONS) {
+    const candidate = path.join(getPresetsDir(), `${preset}${extension}`);
+    if (await fs.pathExists(candidate)) {
+      return candidate;
+    }
+  }
+
+  const available = await listPresets();
+  throw new Error(
+    `Preset "${preset}" not found. It is neither a file nor a saved preset${
+      available.length > 0
+        ? ` (saved presets: ${available.join(", ")})`
+        : ` (no presets saved in ${getPresetsDir()})`
+    }.`
+  );
+}
+
+/**
+ * Load and validate a preset from a JSON/YAML file or a saved preset name
+ * @param preset A file path or the name of a saved preset
+ */
+export async function loadPreset(preset: string): Promise<Preset> {
+  const presetPath = await resolvePresetPath(preset);
+  const content = await fs.readFile(presetPath, "utf8");
+
+  let raw: unknown;
+  try {
+    raw =
+      path.extname(presetPath) === ".json"
+        ? JSON.parse(content)
+        : YAML.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Could not parse preset ${presetPath}: ${(error as Error).message}`
+    );
+  }
+
+  const { name: _name, ...options } = validateProjectOptions(
+    raw,
+    `Preset ${presetPath}`
+  );
+
+  // Template directories are relative to the preset that sets them
+  if (options.templates) {
+    options.templates = path.resolve(
+      path.dirname(presetPath),
+      options.templates
+    );
+  }
+  return options;
+}
+
+/**
+ * Check that a preset name can be used as a file name
+ */
+export function isValidPresetName(name: string): boolean {
+  return /^[\w-]+$/.test(name);
+}
+
+/**
+ * Save project options as a named preset in the user config directory
+ * @returns The path of the saved preset file
+ */
+export async function savePreset(
+  name: string,
+  options: ProjectOptions
+): Promise<string> {
+  if (!isValidPresetName(name)) {
+    throw new Error(
+      `Invalid preset name "${name}". Use letters, numbers, "-" and "_" only.`
+    );
+  }
+
+  const { name: _projectName, ...preset } = options;
+  const presetPath = path.join(getPresetsDir(), `${name}.json`);
+
+  await fs.ensureDir(getPresetsDir());
+  await fs.writeJSON(presetPath, preset, { spaces: 2 });
+
+  return presetPath;
+}
@@ -0,0 +1,185 @@
+import fs from "fs-extra";
+import path from "path";
+import {
+  AuthStrategy,
+  Database,
+  Feature,
+  Framework,
+  FRAMEWORKS,
+  ORM,
+  PACKAGE_MANAGERS,
+  PackageManager,
+  ProjectOptions,
+  ValidationLibrary,
+} from "../types/project.js";
+import { formatAllowed } from "./options.js";
+import { readManifest } from "./manifest.js";
+import { LOCKFILES } from "./packageManager.js";
+
+/**
+ * Location of the Prisma schema in projects using Prisma
+ */
+export const PRISMA_SCHEMA_FILE = "prisma/schema.prisma";
+
+// Databases of the Prisma datasource providers supported by the generator
+const PRISMA_PROVIDERS: Record<string, Database> = {
+  postgresql: "postgres",
+};
+
+/**
+ * Check whether a directory exists and contains at least one file
+ */
+async function hasFiles(dir: string): Promise<boolean> {
+  return (await fs.pathExists(dir)) && (await fs.readdir(dir)).length > 0;
+}
+
+/**
+ * Read the database of a Prisma project from the datasource of its schema
+ */
+async function detectPrismaDatabase(projectDir: string): Promise<Database> {
+  const schemaPath = path.join(projectDir, PRISMA_SCHEMA_FILE);
+  const schema = (await fs.pathExists(schemaPath))
+    ? await fs.readFile(schemaPath, "utf8")
+    : "";
+  const provider = schema.match(
+    /datasource\s+\w+\s*\{[^}]*provider\s*=\s*"(\w+)"/
+  )?.[1];
+
+  if (!provider || !(provider in PRISMA_PROVIDERS)) {
+    throw new Error(
+      `Could not detect the database of this project from ${PRISMA_SCHEMA_FILE}.`
+    );
+  }
+  return PRISMA_PROVIDERS[provider];
+}
+
+/**
+ * Get the options an existing project was generated with, from its manifest
+ * or, for projects generated without one, from its package.json and source
+ * files
+ * @param projectDir The root directory of the generated project
+ */
+export async function detectProjectOptions(
+  projectDir: string
+): Promise<ProjectOptions> {
+  const manifest = await readManifest(projectDir);
+  if (manifest) {
+    return manifest.options;
+  }
+
+  const packageJsonPath = path.join(projectDir, "package.json");
+
+  if (!(await fs.pathExists(packageJsonPath))) {
+    throw new Error(
+      `No package.json found in ${projectDir}. Run this command inside a project generated by rest-generate.`
+    );
+  }
+
+  const packageJson = await fs.readJSON(packageJsonPath);
+  const dependencies: Record<string, string> = {
+    ...packageJson.dependencies,
+    ...packageJson.devDependencies,
+  };
+  const has = (name: string) => name in dependencies;
+
+  let framework: Framework;
+  if (has("express")) {
+    framework = "express";
+  } else if (has("fastify")) {
+    framework = "fastify";
+  } else if (has("koa")) {
+    framework = "koa";
+  } else {
+    throw new Error(
+      `Could not detect the framework of this project. Supported frameworks: ${formatAllowed(
+        FRAMEWORKS
+      )}.`
+    );
+  }
+
+  const features: Feature[] = [];
+  let validationLibrary: ValidationLibrary | undefined;
+  let authStrategy: AuthStrategy | undefined;
+
+  if (has("passport") || has("@fastify/passport") || has("koa-passport")) {
+    features.push("auth");
+    if (has("passport-jwt")) {
+      authStrategy = "jwt";
+    } else if (has("passport-local")) {
+      authStrategy = "session";
+    } else if (has("passport-google-oauth20") || has("passport-github2")) {
+      authStrategy = "oauth";
+    }
+  }
+
+  if (has("joi") || has("zod")) {
+    features.push("validation");
+    validationLibrary = has("zod") ? "zod" : "joi";
+  } else if (
+    framework === "fastify" &&
+    (await hasFiles(path.join(projectDir, "src", "schemas")))
+  ) {
+    // Fastify projects validate with the JSON schemas in src/schemas
+    features.push("validation");
+  }
+
+  if (has("swagger-jsdoc") || has("@fastify/swagger")) {
+    features.push("swagger");
+  }
+
+  if (await fs.pathExists(path.join(projectDir, "Dockerfile"))) {
+    features.push("docker");
+  }
+
+  if (has("jest")) {
+    features.push("tests");
+  }
+
+  let database: Database = "none";
+  let orm: ORM = "none";
+  if (has("mongoose")) {
+    database = "mongodb";
+    orm = "mongoose";
+  } else if (has("@prisma/client")) {
+    database = await detectPrismaDatabase(projectDir);
+    orm = "prisma";
+  } else if (has("drizzle-orm") && has("better-sqlite3")) {
+    database = "sqlite";
+    orm = "drizzle";
+  } else if (has("mysql2") && (has("sequelize") || has("typeorm"))) {
+    database = "mysql";
+    orm = has("sequelize") ? "sequelize" : "typeorm";
+  } else if (has("mongodb")) {
+    database = "mongodb";
+  }
+
+  // The lockfile tells which package manager installs the dependencies
+  let packageManager: PackageManager | undefined;
+  for (const manager of PACKAGE_MANAGERS) {
+    if (await fs.pathExists(path.join(projectDir, LOCKFILES[manager]))) {
+      packageManager = manager;
+      break;
+    }
+  }
+
+  return {
+    name: packageJson.name ?? path.basename(projectDir),
+    language: (await fs.pathExists(path.join(projectDir, "src", "index.ts")))
+      ? "typescript"
+      : "javascript",
+    framework,
+    database,
+    orm,
+    features,
+    validationLibrary,
+    authStrategy,
+    packageManager,
+  };
+}
+
+/**
+ * Get the path of the entry file of a generated project, relative to its root
+ */
+export function getEntryFile(options: ProjectOptions): string {
+  return options.language === "typescript" ? "src/index.ts" : "src/index.js";
+}
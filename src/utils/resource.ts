@@ -0,0 +1,909 @@
+import { InvalidArgumentError } from "commander";
+import { AuthStrategy, ProjectOptions } from "../types/project.js";
+import {
+  FIELD_TYPES,
+  FieldType,
+  ResourceDefinition,
+  ResourceField,
+} from "../types/resource.js";
+import { formatAllowed, isOneOf } from "./options.js";
+import { getEntryFile } from "./project.js";
+import { renderTemplate } from "./templates.js";
+
+/**
+ * The different spellings of a resource name used in generated code
+ */
+export interface ResourceNames {
+  /** e.g. blogPost */
+  camel: string;
+  /** e.g. BlogPost */
+  pascal: string;
+  /** e.g. blog-post */
+  kebab: string;
+  /** e.g. blog post */
+  label: string;
+  /** e.g. a blog post */
+  articleLabel: string;
+  /** e.g. blogPosts */
+  pluralCamel: string;
+  /** e.g. BlogPosts */
+  pluralPascal: string;
+  /** e.g. blog-posts */
+  pluralKebab: string;
+  /** e.g. blog posts */
+  pluralLabel: string;
+}
+
+/**
+ * Lines needed to mount a resource router in the application
+ */
+export interface RouteRegistration {
+  /** File (relative to the project root) the router is mounted in */
+  file: string;
+  importLine: string;
+  mountLine: string;
+  /** The mount line goes after the last line matching this pattern... */
+  after: RegExp;
+  /** ...or, if there is none, before the first line matching this one */
+  before: RegExp;
+}
+
+/**
+ * ORM specific expressions used by the generated controllers. The
+ * expressions can reference the `id` and `input` variables.
+ */
+export interface DataAccess {
+  imports: string[];
+  list: string;
+  get: string;
+  create: string;
+  update: string;
+  remove: string;
+  /** Looks up a record by a unique field, held in a variable of that name */
+  findBy: (field: ResourceField) => string;
+}
+
+/**
+ * Jest spies replacing the data access calls of a resource in generated
+ * tests. The spies still need a resolved value.
+ */
+interface DataAccessMocks {
+  imports: string[];
+  list: string;
+  get: string;
+  create: string;
+}
+
+// Names that would clash with variables used in the generated controllers
+const RESERVED_NAMES = [
+  "ctx",
+  "api",
+  "input",
+  "error",
+  "req",
+  "res",
+  "next",
+  "router",
+  "request",
+  "reply",
+  "app",
+  "prisma",
+  "db",
+  "sequelize",
+];
+
+// Fields that every generated model already has
+export const RESERVED_FIELDS = ["id", "_id", "createdAt", "updatedAt"];
+
+/**
+ * The resource generated as an example in every new project
+ */
+export const EXAMPLE_RESOURCE: ResourceDefinition = {
+  name: "example",
+  fields: [
+    { name: "name", type: "string", array: false, required: true },
+    { name: "description", type: "string", array: false, required: false },
+  ],
+};
+
+/**
+ * The users of the authentication, looked up by email. Passwords and refresh
+ * tokens are only stored hashed, and OAuth users are linked to the accounts
+ * they signed in with.
+ */
+export function getUserResource(
+  authStrategy: AuthStrategy
+): ResourceDefinition {
+  const field = (
+    name: string,
+    required: boolean,
+    unique = false
+  ): ResourceField => ({
+    name,
+    type: "string",
+    array: false,
+    required,
+    unique,
+  });
+
+  const fields =
+    authStrategy === "oauth"
+      ? [field("googleId", false, true), field("githubId", false, true)]
+      : [field("passwordHash", true)];
+  if (authStrategy === "jwt") {
+    fields.push(field("refreshTokenHash", false));
+  }
+
+  return { name: "user", fields: [field("email", true, true), ...fields] };
+}
+
+/**
+ * The sessions of the session and OAuth authentication, stored as JSON
+ */
+export const SESSION_RESOURCE: ResourceDefinition = {
+  name: "session",
+  fields: [
+    { name: "sid", type: "string", array: false, required: true, unique: true },
+    { name: "data", type: "string", array: false, required: true, text: true },
+    { name: "expiresAt", type: "date", array: false, required: true },
+  ],
+};
+
+/**
+ * Split a name such as "blogPost", "blog-post" or "Blog post" into
+ * lowercase words
+ */
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) {
+    return word.slice(0, -1) + "ies";
+  }
+  if (/(s|x|z|ch|sh)$/.test(word)) {
+    return word + "es";
+  }
+  return word + "s";
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * SQL column name of a field, e.g. released_at for releasedAt
+ */
+function getColumnName(name: string): string {
+  return splitWords(name).join("_");
+}
+
+/**
+ * SQL table name of a resource, e.g. blog_posts
+ */
+function getTableName(names: ResourceNames): string {
+  return getColumnName(names.pluralCamel);
+}
+
+/**
+ * Name of the method looking up a record by a unique field, e.g. findByEmail
+ */
+export function getFinderName(field: ResourceField): string {
+  return `findBy${capitalize(field.name)}`;
+}
+
+/**
+ * Get the different spellings of a resource name
+ */
+export function getResourceNames(name: string): ResourceNames {
+  const words = splitWords(name);
+  const pluralWords = [
+    ...words.slice(0, -1),
+    pluralize(words[words.length - 1]),
+  ];
+
+  const toCamel = (parts: string[]) =>
+    parts[0] + parts.slice(1).map(capitalize).join("");
+
+  return {
+    camel: toCamel(words),
+    pascal: words.map(capitalize).join(""),
+    kebab: words.join("-"),
+    label: words.join(" "),
+    articleLabel: `${/^[aeiou]/.test(words[0]) ? "an" : "a"} ${words.join(" ")}`,
+    pluralCamel: toCamel(pluralWords),
+    pluralPascal: pluralWords.map(capitalize).join(""),
+    pluralKebab: pluralWords.join("-"),
+    pluralLabel: pluralWords.join(" "),
+  };
+}
+
+/**
+ * Check that a resource name can be used to generate code
+ */
+export function validateResourceName(name: string): void {
+  if (!/^[A-Za-z][A-Za-z0-9 _-]*$/.test(name)) {
+    throw new Error(
+      `Invalid resource name "${name}". Use letters, numbers, "-" and "_", starting with a letter.`
+    );
+  }
+
+  const { camel, pluralCamel } = getResourceNames(name);
+  if (RESERVED_NAMES.includes(camel) || RESERVED_NAMES.includes(pluralCamel)) {
+    throw new Error(
+      `Resource name "${name}" is reserved. Reserved names: ${formatAllowed(
+        RESERVED_NAMES
+      )}.`
+    );
+  }
+}
+
+/**
+ * Parse a field list such as "title:string,price:number,tags:string[]".
+ * A trailing "?" marks a field as optional, e.g. "description:string?".
+ */
+export function parseFieldList(value: string): ResourceField[] {
+  const fields: ResourceField[] = [];
+
+  for (const item of value.split(",").map((part) => part.trim())) {
+    if (item === "") {
+      continue;
+    }
+
+    const match = item.match(/^([A-Za-z_][A-Za-z0-9_]*):([a-z]+)(\[\])?(\?)?$/);
+    if (!match) {
+      throw new InvalidArgumentError(
+        `Invalid field "${item}". Use name:type, name:type[] or name:type? (types: ${formatAllowed(
+          FIELD_TYPES
+        )}).`
+      );
+    }
+
+    const [, name, type, array, optional] = match;
+
+    if (!isOneOf(FIELD_TYPES, type)) {
+      throw new InvalidArgumentError(
+        `Invalid type "${type}" for field "${name}". Allowed values: ${formatAllowed(
+          FIELD_TYPES
+        )}.`
+      );
+    }
+    if (RESERVED_FIELDS.includes(name)) {
+      throw new InvalidArgumentError(
+        `Field "${name}" is added automatically and cannot be declared.`
+      );
+    }
+    if (fields.some((field) => field.name === name)) {
+      throw new InvalidArgumentError(`Field "${name}" is declared twice.`);
+    }
+
+    fields.push({
+      name,
+      type,
+      array: Boolean(array),
+      required: !optional,
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Get the import and mount lines that register a resource router with the app
+ * @param mountPath Path the router is mounted at under /api, the plural of
+ * the resource by default. Routers mounted at /api itself declare full paths.
+ */
+export function getRouteRegistration(
+  options: ProjectOptions,
+  resource: ResourceDefinition,
+  mountPath = `/${getResourceNames(resource.name).pluralKebab}`
+): RouteRegistration {
+  const names = getResourceNames(resource.name);
+  const file = getEntryFile(options).replace("index", "app");
+  const importLine = `import ${names.camel}Routes from './routes/${names.kebab}.routes.js';`;
+
+  if (options.framework === "fastify") {
+    return {
+      file,
+      importLine,
+      mountLine: `  await app.register(${names.camel}Routes, { prefix: '/api${mountPath}' });`,
+      after: /^\s*await app\.register\(\w+Routes,/,
+      before: /^\s*return app;/,
+    };
+  }
+
+  if (options.framework === "koa") {
+    return {
+      file,
+      importLine,
+      mountLine: `  api.use(${
+        mountPath ? `'${mountPath}', ` : ""
+      }${names.camel}Routes.routes(), ${names.camel}Routes.allowedMethods());`,
+      after: /^\s*api\.use\(/,
+      before: /^\s*app\.use\(api\.routes\(\)\)/,
+    };
+  }
+
+  return {
+    file,
+    importLine,
+    mountLine: `  app.use('/api${mountPath}', ${names.camel}Routes);`,
+    after: /^\s*app\.use\(['"]\/api[/'"]/,
+    before: /^\s*return app;/,
+  };
+}
+
+/**
+ * Get the files storing a resource (model, repository and migration), keyed
+ * by their path relative to the project root
+ */
+export async function getModelFiles(
+  options: ProjectOptions,
+  resource: ResourceDefinition,
+  createdAt: Date = new Date()
+): Promise<Record<string, string>> {
+  const names = getResourceNames(resource.name);
+  const files: Record<string, string> = {};
+  const ext = getExtension(options);
+
+  files[`src/models/${names.kebab}.model.${ext}`] = await renderModel(
+    options,
+    resource
+  );
+
+  if (usesRepository(options)) {
+    files[`src/repositories/${names.kebab}.repository.${ext}`] =
+      await renderRepository(options, resource);
+  }
+
+  const migration = getMigrationFile(options, resource, createdAt);
+  if (migration) {
+    files[migration] = await renderMigration(options, resource, createdAt);
+  }
+
+  return files;
+}
+
+/**
+ * Get the files to generate for a resource, keyed by their path relative
+ * to the project root
+ */
+export async function getResourceFiles(
+  options: ProjectOptions,
+  resource: ResourceDefinition,
+  createdAt: Date = new Date()
+): Promise<Record<string, string>> {
+  const names = getResourceNames(resource.name);
+  const files = await getModelFiles(options, resource, createdAt);
+  const ext = getExtension(options);
+
+  files[`src/controllers/${names.kebab}.controller.${ext}`] =
+    await renderController(options, resource);
+  files[`src/routes/${names.kebab}.routes.${ext}`] = await renderRoutes(
+    options,
+    resource
+  );
+
+  if (options.framework === "fastify") {
+    // Fastify validates requests natively with JSON schemas
+    if (options.features.includes("validation")) {
+      files[`src/schemas/${names.kebab}.schema.${ext}`] =
+        await renderResourceTemplate("fastify/schema.ejs", options, resource);
+    }
+  } else if (
+    options.features.includes("validation") &&
+    options.validationLibrary
+  ) {
+    files[`src/validators/${names.kebab}.validator.${ext}`] =
+      await renderResourceTemplate(
+        "features/validation/validator.ejs",
+        options,
+        resource
+      );
+  }
+
+  if (options.features.includes("tests")) {
+    const mocks = getDataAccessMocks(options, resource);
+    files[`tests/unit/${names.kebab}.controller.test.${ext}`] =
+      await renderResourceTemplate(
+        "features/tests/controller.test.ejs",
+        options,
+        resource,
+        { mocks }
+      );
+    // Route tests only mock the data access without a test database
+    const testDatabase = usesTestDatabase(options);
+    files[`tests/integration/${names.kebab}.routes.test.${ext}`] =
+      await renderResourceTemplate(
+        "features/tests/routes.test.ejs",
+        options,
+        resource,
+        { mocks: testDatabase ? null : mocks, testDatabase }
+      );
+  }
+
+  return files;
+}
+
+/**
+ * TypeScript type of a field
+ */
+function getTsType(field: ResourceField): string {
+  const base: Record<FieldType, string> = {
+    string: "string",
+    number: "number",
+    boolean: "boolean",
+    date: "Date",
+  };
+  return base[field.type] + (field.array ? "[]" : "");
+}
+
+/**
+ * Sample value for a field, used in generated tests
+ */
+function getSampleValue(field: ResourceField): string {
+  const samples: Record<FieldType, string> = {
+    string: `'${field.name}'`,
+    number: "1",
+    boolean: "true",
+    date: "'2024-01-01T00:00:00.000Z'",
+  };
+  const sample = samples[field.type];
+  return field.array ? `[${sample}]` : sample;
+}
+
+/**
+ * A parameter of a generated function, as [name, TypeScript type]
+ */
+export type Param = [string, string];
+
+/**
+ * Whether the files of a project are written in TypeScript
+ */
+export function isTypeScript(options: ProjectOptions): boolean {
+  return options.language === "typescript";
+}
+
+/**
+ * Extension of the source files of a project
+ */
+export function getExtension(options: ProjectOptions): string {
+  return isTypeScript(options) ? "ts" : "js";
+}
+
+/**
+ * Render the doc comment of a generated function. JavaScript files declare
+ * the parameter types in the comment, TypeScript files in the signature.
+ */
+export function renderDoc(
+  options: ProjectOptions,
+  summary: string,
+  params: Param[] = []
+): string {
+  const tags = isTypeScript(options)
+    ? []
+    : params.map(([name, type]) => ` * @param {${type}} ${name}`);
+  return ["/**", ` * ${summary}`, ...tags, " */"].join("\n");
+}
+
+/**
+ * Render the parameter list of a generated function
+ */
+export function renderParams(options: ProjectOptions, params: Param[]): string {
+  return params
+    .map(([name, type]) => (isTypeScript(options) ? `${name}: ${type}` : name))
+    .join(", ");
+}
+
+/**
+ * Render an import of types, done with a JSDoc @import tag in JavaScript
+ * files
+ */
+export function renderTypeImport(
+  options: ProjectOptions,
+  types: string[],
+  from: string
+): string {
+  return isTypeScript(options)
+    ? `import { ${types.join(", ")} } from '${from}';`
+    : `/** @import { ${types.join(", ")} } from '${from}' */`;
+}
+
+/**
+ * Cast an expression in TypeScript files, used as is in JavaScript files
+ */
+export function cast(
+  options: ProjectOptions,
+  expression: string,
+  type: string
+): string {
+  return isTypeScript(options) ? `${expression} as ${type}` : expression;
+}
+
+/**
+ * Render a template generating code for a resource. Besides the values every
+ * template gets, it gets the `resource`, its `fields`, the spellings of its
+ * name as `names`, its SQL `tableName`, whether its routes `requiresAuth`
+ * and helpers formatting the fields and the generated code.
+ * @param data Values computed by the generator for this template
+ */
+async function renderResourceTemplate(
+  name: string,
+  options: ProjectOptions,
+  resource: ResourceDefinition,
+  data: Record<string, unknown> = {}
+): Promise<string> {
+  const names = getResourceNames(resource.name);
+
+  return renderTemplate(name, options, {
+    resource,
+    fields: resource.fields,
+    names,
+    tableName: getTableName(names),
+    capitalize,
+    tsType: getTsType,
+    columnName: (field: ResourceField) => getColumnName(field.name),
+    finderName: getFinderName,
+    sampleValue: getSampleValue,
+    renderDoc: (summary: string, params?: Param[]) =>
+      renderDoc(options, summary, params),
+    renderParams: (params: Param[]) => renderParams(options, params),
+    renderTypeImport: (types: string[], from: string) =>
+      renderTypeImport(options, types, from),
+    cast: (expression: string, type: string) => cast(options, expression, type),
+    requiresAuth: requiresAuth(options),
+    ...data,
+  });
+}
+
+/**
+ * Directory of the templates of the ORM of a project, "memory" for the
+ * in-memory store of projects without a database
+ */
+function getOrmTemplateDir(options: ProjectOptions): string {
+  return `database/${options.orm === "none" ? "memory" : options.orm}`;
+}
+
+/**
+ * Render the model for a resource
+ */
+function renderModel(
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): Promise<string> {
+  return renderResourceTemplate(
+    `${getOrmTemplateDir(options)}/model.ejs`,
+    options,
+    resource
+  );
+}
+
+/**
+ * Render the repository of a resource, for ORMs that query through a
+ * repository rather than through the model
+ */
+function renderRepository(
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): Promise<string> {
+  return renderResourceTemplate(
+    `${getOrmTemplateDir(options)}/repository.ejs`,
+    options,
+    resource
+  );
+}
+
+/**
+ * Path of the migration creating the table of a resource, or null when the
+ * ORM creates its migrations itself
+ * @param createdAt Time the migration is created at, used to order migrations
+ */
+export function getMigrationFile(
+  options: ProjectOptions,
+  resource: ResourceDefinition,
+  createdAt: Date
+): string | null {
+  const names = getResourceNames(resource.name);
+
+  if (options.orm === "sequelize") {
+    // sequelize-cli orders migrations by their YYYYMMDDHHmmss prefix
+    const timestamp = createdAt.toISOString().replace(/\D/g, "").slice(0, 14);
+    return `migrations/${timestamp}-create-${names.pluralKebab}.cjs`;
+  }
+
+  if (options.orm === "typeorm") {
+    return `src/migrations/${createdAt.getTime()}-Create${
+      names.pluralPascal
+    }.${getExtension(options)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Render the migration creating the table of a resource
+ */
+function renderMigration(
+  options: ProjectOptions,
+  resource: ResourceDefinition,
+  createdAt: Date
+): Promise<string> {
+  return renderResourceTemplate(
+    options.orm === "typeorm"
+      ? "database/typeorm/migration.ejs"
+      : "database/sequelize/migration.cjs.ejs",
+    options,
+    resource,
+    { createdAt }
+  );
+}
+
+/**
+ * Render the Prisma model of a resource, to add to prisma/schema.prisma
+ */
+export function renderPrismaModel(
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): Promise<string> {
+  return renderResourceTemplate(
+    "database/prisma/model.prisma.ejs",
+    options,
+    resource
+  );
+}
+
+/**
+ * Render the controller with list/get/create/update/delete handlers
+ */
+function renderController(
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): Promise<string> {
+  const names = getResourceNames(resource.name);
+  const dataAccess = getDataAccess(options, resource);
+  // Controllers reading request bodies without validation import their type
+  const inputImports = [...dataAccess.imports];
+  const inputType = importInputType(options, names, inputImports);
+
+  return renderResourceTemplate(
+    `${options.framework}/controller.ejs`,
+    options,
+    resource,
+    { dataAccess, inputImports, inputType }
+  );
+}
+
+/**
+ * Render the router for a resource, documented for Swagger UI with the
+ * swagger feature
+ */
+async function renderRoutes(
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): Promise<string> {
+  const names = getResourceNames(resource.name);
+  const docs = options.features.includes("swagger")
+    ? await renderResourceTemplate(
+        "features/swagger/routes.docs.ejs",
+        options,
+        resource
+      )
+    : null;
+
+  return renderResourceTemplate(
+    `${options.framework}/routes.ejs`,
+    options,
+    resource,
+    { docs, inputType: getInputType(options, names) }
+  );
+}
+
+/**
+ * Whether the routes changing resources require an access token, which they
+ * do with JWT authentication
+ */
+function requiresAuth(options: ProjectOptions): boolean {
+  return options.features.includes("auth") && options.authStrategy === "jwt";
+}
+
+/**
+ * Whether the tests run against an in-memory database instead of mocking the
+ * data access. The Prisma client is generated for a single database, and an
+ * in-memory MongoDB server downloads its binary, so their tests keep mocking
+ * the data access.
+ */
+export function usesTestDatabase(options: ProjectOptions): boolean {
+  return ["sequelize", "typeorm", "drizzle"].includes(options.orm);
+}
+
+/**
+ * Whether the controllers go through a repository instead of the model
+ */
+function usesRepository(options: ProjectOptions): boolean {
+  return options.orm === "drizzle" || options.orm === "typeorm";
+}
+
+/**
+ * Name of the type describing the input (request body) of a resource
+ */
+function getInputType(options: ProjectOptions, names: ResourceNames): string {
+  return options.orm === "mongoose"
+    ? `I${names.pascal}`
+    : `${names.pascal}Input`;
+}
+
+/**
+ * Add the import of the input type of a resource to the imports of a
+ * controller, for the request bodies
+ * @returns The name the controller refers to the input type by
+ */
+function importInputType(
+  options: ProjectOptions,
+  names: ResourceNames,
+  imports: string[]
+): string {
+  const inputType = getInputType(options, names);
+
+  // Without an ORM the controller already imports the whole model
+  if (options.orm === "none") {
+    return `${names.camel}Model.${inputType}`;
+  }
+
+  const modelPath = `../models/${names.kebab}.model.js`;
+  const modelImport = imports.findIndex((line) =>
+    line.endsWith(` } from '${modelPath}';`)
+  );
+  if (modelImport === -1 || !isTypeScript(options)) {
+    imports.push(renderTypeImport(options, [inputType], modelPath));
+  } else {
+    imports[modelImport] = imports[modelImport].replace(
+      " } from",
+      `, ${inputType} } from`
+    );
+  }
+  return inputType;
+}
+
+/**
+ * Get the ORM specific data access expressions for a resource
+ */
+export function getDataAccess(
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): DataAccess {
+  const names = getResourceNames(resource.name);
+
+  if (options.orm === "mongoose") {
+    return {
+      imports: [
+        `import { ${names.pascal} } from '../models/${names.kebab}.model.js';`,
+      ],
+      list: `${names.pascal}.find()`,
+      get: `${names.pascal}.findById(id)`,
+      create: `${names.pascal}.create(input)`,
+      update: `${names.pascal}.findByIdAndUpdate(id, input, { new: true, runValidators: true })`,
+      remove: `${names.pascal}.findByIdAndDelete(id)`,
+      findBy: (field) => `${names.pascal}.findOne({ ${field.name} })`,
+    };
+  }
+
+  if (options.orm === "prisma") {
+    const model = `prisma.${names.camel}`;
+    return {
+      imports: [
+        "import { prisma, nullIfNotFound } from '../config/prisma.js';",
+      ],
+      list: `${model}.findMany()`,
+      get: `${model}.findUnique({ where: { id } })`,
+      create: `${model}.create({ data: input })`,
+      update: `nullIfNotFound(${model}.update({ where: { id }, data: input }))`,
+      remove: `nullIfNotFound(${model}.delete({ where: { id } }))`,
+      findBy: (field) => `${model}.findUnique({ where: { ${field.name} } })`,
+    };
+  }
+
+  if (options.orm === "sequelize") {
+    return {
+      imports: [
+        `import { ${names.pascal} } from '../models/${names.kebab}.model.js';`,
+        "import { updateByPk, destroyByPk } from '../config/database.js';",
+      ],
+      list: `${names.pascal}.findAll()`,
+      get: `${names.pascal}.findByPk(id)`,
+      create: `${names.pascal}.create(input)`,
+      update: `updateByPk(${names.pascal}, id, input)`,
+      remove: `destroyByPk(${names.pascal}, id)`,
+      findBy: (field) =>
+        `${names.pascal}.findOne({ where: { ${field.name} } })`,
+    };
+  }
+
+  if (usesRepository(options)) {
+    const repository = `${names.camel}Repository`;
+    return {
+      imports: [
+        `import { ${repository} } from '../repositories/${names.kebab}.repository.js';`,
+      ],
+      list: `${repository}.findAll()`,
+      get: `${repository}.findById(id)`,
+      create: `${repository}.create(input)`,
+      update: `${repository}.update(id, input)`,
+      remove: `${repository}.remove(id)`,
+      findBy: (field) => `${repository}.${getFinderName(field)}(${field.name})`,
+    };
+  }
+
+  return {
+    imports: [
+      `import * as ${names.camel}Model from '../models/${names.kebab}.model.js';`,
+    ],
+    list: `${names.camel}Model.findAll()`,
+    get: `${names.camel}Model.findById(id)`,
+    create: `${names.camel}Model.create(input)`,
+    update: `${names.camel}Model.update(id, input)`,
+    remove: `${names.camel}Model.remove(id)`,
+    findBy: (field) =>
+      `${names.camel}Model.${getFinderName(field)}(${field.name})`,
+  };
+}
+
+/**
+ * Get the spies used by generated tests to avoid hitting a database, or null
+ * when the model can be used as is
+ */
+function getDataAccessMocks(
+  options: ProjectOptions,
+  resource: ResourceDefinition
+): DataAccessMocks | null {
+  const names = getResourceNames(resource.name);
+
+  if (options.orm === "mongoose") {
+    return {
+      imports: [
+        `import { ${names.pascal} } from '../../src/models/${names.kebab}.model.js';`,
+      ],
+      list: `jest.spyOn(${names.pascal}, 'find')`,
+      get: `jest.spyOn(${names.pascal}, 'findById')`,
+      create: `jest.spyOn(${names.pascal}, 'create')`,
+    };
+  }
+
+  if (options.orm === "prisma") {
+    const model = `prisma.${names.camel}`;
+    return {
+      imports: ["import { prisma } from '../../src/config/prisma.js';"],
+      list: `jest.spyOn(${model}, 'findMany')`,
+      get: `jest.spyOn(${model}, 'findUnique')`,
+      create: `jest.spyOn(${model}, 'create')`,
+    };
+  }
+
+  if (options.orm === "sequelize") {
+    return {
+      imports: [
+        `import { ${names.pascal} } from '../../src/models/${names.kebab}.model.js';`,
+      ],
+      list: `jest.spyOn(${names.pascal}, 'findAll')`,
+      get: `jest.spyOn(${names.pascal}, 'findByPk')`,
+      create: `jest.spyOn(${names.pascal}, 'create')`,
+    };
+  }
+
+  if (usesRepository(options)) {
+    const repository = `${names.camel}Repository`;
+    return {
+      imports: [
+        `import { ${repository} } from '../../src/repositories/${names.kebab}.repository.js';`,
+      ],
+      list: `jest.spyOn(${repository}, 'findAll')`,
+      get: `jest.spyOn(${repository}, 'findById')`,
+      create: `jest.spyOn(${repository}, 'create')`,
+    };
+  }
+
+  return null;
+}
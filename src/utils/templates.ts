@@ -0,0 +1,133 @@
+import ejs from "ejs";
+import fs from "fs-extra";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Feature, PackageManager, ProjectOptions } from "../types/project.js";
+import {
+  getPackageManager,
+  getRunCommand,
+  LOCKFILES,
+} from "./packageManager.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Directory of the built-in templates, shipped with the sources so the same
+ * path works from src/ and from the build in dist/
+ */
+export const TEMPLATES_DIR = path.join(__dirname, "../../src/templates");
+
+// The output is source code, not HTML
+const RENDER_OPTIONS = {
+  async: false,
+  escape: (value: unknown) => String(value),
+} as const;
+
+/**
+ * Values available to every template: the project options, both as top-level
+ * variables and as `options`, and a few helpers
+ */
+export interface TemplateContext extends ProjectOptions {
+  options: ProjectOptions;
+  /** Whether the project is written in TypeScript */
+  isTypeScript: boolean;
+  /** Extension of the source files, "ts" or "js" */
+  ext: "ts" | "js";
+  /** Package manager of the project, npm unless another one was chosen */
+  packageManager: PackageManager;
+  /** Lockfile the package manager writes, e.g. package-lock.json */
+  lockfile: string;
+  /** Whether a feature is selected */
+  has: (feature: Feature) => boolean;
+  /** Command running a package.json script, e.g. `npm run dev` */
+  run: (script: string) => string;
+}
+
+/**
+ * Build the context templates are rendered with
+ */
+export function getTemplateContext(options: ProjectOptions): TemplateContext {
+  const isTypeScript = options.language === "typescript";
+
+  return {
+    ...options,
+    // Optional options are always defined so templates can test them
+    validationLibrary: options.validationLibrary,
+    authStrategy: options.authStrategy,
+    templates: options.templates,
+    openapi: options.openapi,
+    registry: options.registry,
+    packageManager: getPackageManager(options),
+    lockfile: LOCKFILES[getPackageManager(options)],
+    options,
+    isTypeScript,
+    ext: isTypeScript ? "ts" : "js",
+    has: (feature) => options.features.includes(feature),
+    run: (script) => getRunCommand(options, script),
+  };
+}
+
+/**
+ * Find a template, in the override directory of the project options first
+ * and in the built-in templates otherwise
+ * @param name The path of the template relative to the templates directory
+ */
+export async function resolveTemplate(
+  name: string,
+  options: ProjectOptions
+): Promise<string> {
+  if (options.templates) {
+    const override = path.join(options.templates, name);
+    if (await fs.pathExists(override)) {
+      return override;
+    }
+  }
+
+  const builtIn = path.join(TEMPLATES_DIR, name);
+  if (!(await fs.pathExists(builtIn))) {
+    throw new Error(`Template ${name} not found in ${TEMPLATES_DIR}.`);
+  }
+  return builtIn;
+}
+
+/**
+ * Render a template with the project options and extra values
+ * @param name The path of the template relative to the templates directory
+ * @param options The project options
+ * @param data Values computed by the generator for this template
+ */
+export async function renderTemplate(
+  name: string,
+  options: ProjectOptions,
+  data: Record<string, unknown> = {}
+): Promise<string> {
+  const templatePath = await resolveTemplate(name, options);
+
+  return ejs.renderFile(
+    templatePath,
+    { ...getTemplateContext(options), ...data },
+    RENDER_OPTIONS
+  );
+}
+
+/**
+ * Compile a template to render it many times, synchronously, e.g. from the
+ * helpers of another template
+ * @param name The path of the template relative to the templates directory
+ * @param options The project options
+ * @returns Render the template with the project options and extra values
+ */
+export async function compileTemplate(
+  name: string,
+  options: ProjectOptions
+): Promise<(data?: Record<string, unknown>) => string> {
+  const templatePath = await resolveTemplate(name, options);
+  const template = ejs.compile(await fs.readFile(templatePath, "utf8"), {
+    ...RENDER_OPTIONS,
+    filename: templatePath,
+  });
+  const context = getTemplateContext(options);
+
+  return (data = {}) => template({ ...context, ...data });
+}
@@ -0,0 +1,236 @@
+/**
+ * Version ranges of every package generated projects can depend on, starting
+ * at the versions the generated code is checked with. Projects generated with
+ * the same version of rest-generate get the same ranges.
+ */
+export const PACKAGE_VERSIONS = {
+  // Runtime
+  dotenv: "^18.0.5",
+
+  // Frameworks
+  express: "^5.2.1",
+  cors: "^2.8.6",
+  helmet: "^8.3.0",
+  morgan: "^1.12.1",
+  fastify: "^5.12.5",
+  "@fastify/cors": "^11.3.0",
+  "@fastify/helmet": "^13.1.1",
+  koa: "^3.2.1",
+  "koa-router": "^14.0.0",
+  "koa-bodyparser": "^4.4.1",
+  "@koa/cors": "^5.0.0",
+  "koa-helmet": "^9.0.0",
+
+  // Databases and ORMs
+  mongodb: "^7.7.0",
+  mysql2: "^3.24.5",
+  "better-sqlite3": "^12.11.1",
+  mongoose: "^9.10.4",
+  // Prisma 7 requires driver adapters, generated projects stay on Prisma 6.
+  // The client and the CLI must have the same major version.
+  "@prisma/client": "^6.19.3",
+  prisma: "^6.19.3",
+  "drizzle-orm": "^0.45.3",
+  "drizzle-kit": "^0.31.11",
+  sequelize: "^6.37.8",
+  "sequelize-cli": "^6.6.5",
+  typeorm: "^1.1.1",
+  "reflect-metadata": "^0.2.2",
+
+  // Authentication
+  passport: "^0.7.0",
+  "express-session": "^1.19.0",
+  "@fastify/passport": "^4.0.3",
+  "@fastify/cookie": "^11.1.2",
+  "@fastify/session": "^11.1.3",
+  "koa-passport": "^6.0.0",
+  "koa-session": "^7.0.2",
+  "passport-jwt": "^4.0.1",
+  jsonwebtoken: "^9.0.2",
+  "passport-local": "^1.0.0",
+  "passport-google-oauth20": "^2.0.0",
+  "passport-github2": "^0.1.12",
+  bcrypt: "^6.0.0",
+
+  // Validation
+  joi: "^18.2.9",
+  zod: "^4.6.5",
+
+  // Documentation
+  "swagger-jsdoc": "^6.3.0",
+  "swagger-ui-express": "^5.0.1",
+  "@fastify/swagger": "^9.9.0",
+  // @fastify/swagger-ui 6.1.1 depends on a version of @fastify/static that
+  // requires Node.js 22, through content-disposition 3
+  "@fastify/swagger-ui": "6.1.0",
+  "koa2-swagger-ui": "^5.12.0",
+  yaml: "^2.9.1",
+
+  // Tooling
+  typescript: "^5.9.3",
+  "ts-node": "^10.9.2",
+  "ts-node-dev": "^2.0.0",
+  nodemon: "^3.1.14",
+  "tsconfig-paths": "^4.2.0",
+  rimraf: "^5.0.10",
+  eslint: "^8.57.1",
+  "@typescript-eslint/eslint-plugin": "^6.21.0",
+  "@typescript-eslint/parser": "^6.21.0",
+  prettier: "^3.9.9",
+
+  // Testing
+  jest: "^29.7.0",
+  "ts-jest": "^29.4.14",
+  "@jest/globals": "^29.7.0",
+  supertest: "^6.3.4",
+  sqlite3: "^5.1.7",
+
+  // Type definitions
+  "@types/node": "^20.19.43",
+  "@types/express": "^5.0.6",
+  "@types/cors": "^2.8.19",
+  "@types/morgan": "^1.9.10",
+  "@types/koa": "^3.0.3",
+  "@types/koa-router": "^7.4.9",
+  "@types/koa-bodyparser": "^5.0.2",
+  "@types/koa__cors": "^5.0.1",
+  "@types/koa-passport": "^6.0.3",
+  "@types/passport": "^1.0.17",
+  "@types/passport-jwt": "^4.0.1",
+  "@types/jsonwebtoken": "^9.0.10",
+  "@types/bcrypt": "^6.0.0",
+  "@types/express-session": "^1.19.0",
+  "@types/passport-local": "^1.0.38",
+  "@types/passport-google-oauth20": "^2.0.17",
+  "@types/passport-github2": "^1.2.9",
+  "@types/swagger-jsdoc": "^6.0.4",
+  "@types/swagger-ui-express": "^4.1.8",
+  "@types/better-sqlite3": "^7.6.13",
+  "@types/jest": "^29.5.14",
+  "@types/supertest": "^2.0.16",
+} as const;
+
+/**
+ * A package generated projects can depend on
+ */
+export type PackageName = keyof typeof PACKAGE_VERSIONS;
+
+/**
+ * Get the pinned version ranges of packages, sorted by name like npm does
+ */
+export function pinVersions(
+  packages: Iterable<PackageName>
+): Record<string, string> {
+  return Object.fromEntries(
+    [...new Set(packages)]
+      .sort((a, b) => a.localeCompare(b))
+      .map((name) => [name, PACKAGE_VERSIONS[name]])
+  );
+}
+
+/**
+ * Parse a release version such as 1.2.3
+ * @returns Its numbers, or null for prereleases and invalid versions
+ */
+function parseVersion(version: string): [number, number, number] | null {
+  const match = version.match(/^(\d+)\.(\d+)\.(\d+)$/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * Compare two parsed versions, as a sort function
+ */
+function compareVersions(
+  a: [number, number, number],
+  b: [number, number, number]
+): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Check whether a release version is in a range. Only the exact, caret and
+ * tilde ranges used in PACKAGE_VERSIONS are supported.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const operator = range.match(/^[\^~]/)?.[0] ?? "";
+  const min = parseVersion(range.slice(operator.length));
+  if (!parsed || !min || compareVersions(parsed, min) < 0) {
+    return false;
+  }
+
+  if (operator === "") {
+    return compareVersions(parsed, min) === 0;
+  }
+  // ~1.2.3 and ^0.2.3 allow patches, ^0.0.3 nothing else
+  if (operator === "~" || (min[0] === 0 && min[1] > 0)) {
+    return parsed[0] === min[0] && parsed[1] === min[1];
+  }
+  if (min[0] === 0 && min[1] === 0) {
+    return compareVersions(parsed, min) === 0;
+  }
+  return parsed[0] === min[0];
+}
+
+/**
+ * Get the highest release version in a range
+ * @returns The version, or null if none is in the range
+ */
+export function maxSatisfying(
+  versions: string[],
+  range: string
+): string | null {
+  const matching = versions
+    .filter((version) => satisfies(version, range))
+    .map((version) => parseVersion(version) as [number, number, number])
+    .sort(compareVersions);
+  return matching.length > 0 ? matching[matching.length - 1].join(".") : null;
+}
+
+/**
+ * Resolve each package to the highest version in its range published in an
+ * npm registry, such as a local or offline mirror
+ * @param dependencies Version ranges keyed by package name
+ * @param registry URL of the registry
+ * @returns Exact versions keyed by package name
+ */
+export async function resolveVersions(
+  dependencies: Record<string, string>,
+  registry: string
+): Promise<Record<string, string>> {
+  const resolved: Record<string, string> = {};
+
+  for (const [name, range] of Object.entries(dependencies)) {
+    // Scoped packages are requested as @scope%2Fname
+    const url = `${registry.replace(/\/+$/, "")}/${name.replace("/", "%2F")}`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        // Abbreviated metadata, which lists the versions
+        headers: { Accept: "application/vnd.npm.install-v1+json" },
+      });
+    } catch (error) {
+      throw new Error(
+        `Could not reach the registry ${registry}: ${(error as Error).message}`
+      );
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Could not get ${name} from the registry ${registry} (HTTP ${response.status}).`
+      );
+    }
+
+    const metadata = (await response.json()) as {
+      versions?: Record<string, unknown>;
+    };
+    const version = maxSatisfying(Object.keys(metadata.versions ?? {}), range);
+    if (!version) {
+      throw new Error(
+        `The registry ${registry} has no version of ${name} matching ${range}.`
+      );
+    }
+    resolved[name] = version;
+  }
+
+  return resolved;
+}
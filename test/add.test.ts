@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { addFeature } from "../src/commands/add.js";
+import { generateResource } from "../src/commands/generate.js";
+import { generateProject } from "../src/utils/generator.js";
+import { readManifest } from "../src/utils/manifest.js";
+import { parseFieldList } from "../src/utils/resource.js";
+import { Framework, ProjectOptions } from "../src/types/project.js";
+
+/**
+ * Options of a project generated without features
+ */
+function optionsFor(framework: Framework): ProjectOptions {
+  return {
+    name: "shop",
+    language: "typescript",
+    framework,
+    database: "none",
+    orm: "none",
+    features: [],
+    packageManager: "npm",
+  };
+}
+
+describe("add after generate resource", () => {
+  const cwd = process.cwd();
+  let projectDir: string;
+  let output: string[];
+
+  beforeEach(async () => {
+    // Keep the progress messages out of the test report, and fail instead
+    // of exiting
+    output = [];
+    mock.method(console, "log", (message: string) => output.push(message));
+    mock.method(console, "error", (message: string) => output.push(message));
+    mock.method(process, "exit", (code: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), "rest-generate-"));
+  });
+
+  afterEach(async () => {
+    process.chdir(cwd);
+    mock.restoreAll();
+    await fs.remove(projectDir);
+  });
+
+  /**
+   * Generate a project with the product resource
+   */
+  const generateWithResource = async (options: ProjectOptions) => {
+    await generateProject(projectDir, options);
+    process.chdir(projectDir);
+    await generateResource("product", {
+      fields: parseFieldList("title:string"),
+    });
+  };
+
+  for (const framework of ["express", "fastify", "koa"] as const) {
+    it(`keeps the resource when adding auth to ${framework}`, async () => {
+      await generateWithResource(optionsFor(framework));
+
+      await addFeature("auth", { yes: true });
+
+      const app = await fs.readFile(
+        path.join(projectDir, "src/app.ts"),
+        "utf8"
+      );
+      assert.match(app, /import productRoutes from/);
+      assert.match(app, /\/products/);
+      assert.match(app, /import authRoutes from/);
+      assert.match(app, /\/auth/);
+      assert.ok(
+        !output.some((message) => /must be updated by hand/.test(message)),
+        output.join("\n")
+      );
+      assert.ok(
+        await fs.pathExists(path.join(projectDir, "src/routes/auth.routes.ts"))
+      );
+      const manifest = await readManifest(projectDir);
+      assert.deepEqual(manifest?.options.features, ["auth"]);
+    });
+  }
+
+  it("reports the files it cannot update", async () => {
+    await generateWithResource(optionsFor("express"));
+    const appPath = path.join(projectDir, "src/app.ts");
+    // Change the line the auth feature inserts its import after
+    const app = await fs.readFile(appPath, "utf8");
+    await fs.writeFile(
+      appPath,
+      app.replace("import morgan from", "import logger from")
+    );
+
+    await addFeature("auth", { yes: true });
+
+    assert.ok(
+      output.some((message) =>
+        /src\/app\.ts must be updated by hand/.test(message)
+      )
+    );
+    assert.ok(
+      await fs.pathExists(path.join(projectDir, "src/routes/auth.routes.ts"))
+    );
+  });
+});
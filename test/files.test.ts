@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { commitFileTree } from "../src/utils/files.js";
+import { generateProject } from "../src/utils/generator.js";
+import { MANIFEST_FILE, readManifest } from "../src/utils/manifest.js";
+import { ProjectOptions } from "../src/types/project.js";
+
+const OPTIONS: ProjectOptions = {
+  name: "shop",
+  language: "typescript",
+  framework: "express",
+  database: "none",
+  orm: "none",
+  features: [],
+  packageManager: "npm",
+};
+
+describe("generating a project again", () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    // Keep the progress messages out of the test report
+    mock.method(console, "log", () => {});
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), "rest-generate-"));
+    await generateProject(projectDir, OPTIONS, { onConflict: "skip" });
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await fs.remove(projectDir);
+  });
+
+  it("keeps the generation time of the manifest", async () => {
+    const before = await readManifest(projectDir);
+
+    const changes = await generateProject(projectDir, OPTIONS, {
+      onConflict: "skip",
+    });
+
+    assert.deepEqual(await readManifest(projectDir), before);
+    assert.ok(changes.every((change) => change.action === "unchanged"));
+  });
+
+  it("keeps the random secrets of .env", async () => {
+    const options: ProjectOptions = {
+      ...OPTIONS,
+      features: ["auth"],
+      authStrategy: "jwt",
+    };
+    await generateProject(projectDir, options, { onConflict: "overwrite" });
+    const env = await fs.readFile(path.join(projectDir, ".env"), "utf8");
+    assert.match(env, /^JWT_SECRET=[0-9a-f]{64}$/m);
+    assert.match(env, /^JWT_REFRESH_SECRET=[0-9a-f]{64}$/m);
+
+    const changes = await generateProject(projectDir, options, {
+      onConflict: "overwrite",
+    });
+
+    assert.equal(await fs.readFile(path.join(projectDir, ".env"), "utf8"), env);
+    assert.equal(
+      changes.find((change) => change.path === ".env")?.action,
+      "unchanged"
+    );
+  });
+
+  it("writes the manifest when existing files are kept", async () => {
+    await fs.appendFile(path.join(projectDir, "src/app.ts"), "// Mine\n");
+
+    const changes = await generateProject(
+      projectDir,
+      { ...OPTIONS, features: ["docker"] },
+      { onConflict: "skip" }
+    );
+
+    const manifest = await readManifest(projectDir);
+    assert.deepEqual(manifest?.options.features, ["docker"]);
+    assert.equal(
+      changes.find((change) => change.path === MANIFEST_FILE)?.action,
+      "overwrite"
+    );
+    assert.equal(
+      changes.find((change) => change.path === "src/app.ts")?.action,
+      "skip"
+    );
+  });
+});
+
+describe("commitFileTree", () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), "rest-generate-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectDir);
+  });
+
+  it("rolls back the files moved before a move fails", async () => {
+    await fs.outputFile(path.join(projectDir, "a.txt"), "old a\n");
+    await fs.outputFile(path.join(projectDir, "c.txt"), "old c\n");
+    // A file where a generated file needs a directory
+    await fs.outputFile(path.join(projectDir, "d"), "mine\n");
+
+    await assert.rejects(
+      commitFileTree(projectDir, {
+        files: {
+          "a.txt": "new a\n",
+          "b/b.txt": "new b\n",
+          "c.txt": "new c\n",
+          "d/d.txt": "new d\n",
+        },
+        directories: ["e"],
+      })
+    );
+
+    assert.equal(
+      await fs.readFile(path.join(projectDir, "a.txt"), "utf8"),
+      "old a\n"
+    );
+    assert.equal(
+      await fs.readFile(path.join(projectDir, "c.txt"), "utf8"),
+      "old c\n"
+    );
+    assert.equal(
+      await fs.readFile(path.join(projectDir, "d"), "utf8"),
+      "mine\n"
+    );
+    assert.equal(await fs.pathExists(path.join(projectDir, "b")), false);
+    assert.equal(await fs.pathExists(path.join(projectDir, "e")), false);
+    // Nothing is left of the staging directory next to the project
+    assert.deepEqual(
+      (await fs.readdir(path.dirname(projectDir))).filter((name) =>
+        name.startsWith(`.${path.basename(projectDir)}-`)
+      ),
+      []
+    );
+  });
+
+  it("writes a new directory as a whole", async () => {
+    const targetDir = path.join(projectDir, "project");
+
+    await commitFileTree(targetDir, {
+      files: { "src/app.ts": "app\n" },
+      directories: ["src/models"],
+    });
+
+    assert.equal(
+      await fs.readFile(path.join(targetDir, "src/app.ts"), "utf8"),
+      "app\n"
+    );
+    assert.ok(await fs.pathExists(path.join(targetDir, "src/models")));
+  });
+});
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import crypto from "crypto";
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { createTwoFilesPatch } from "diff";
+import ts from "typescript";
+import { generateProject } from "../src/utils/generator.js";
+import {
+  Combination,
+  getCombinations,
+  getSnapshotPath,
+} from "./helpers/combinations.js";
+import { typeCheckProject } from "./helpers/typecheck.js";
+
+// Snapshots are rewritten instead of compared with UPDATE_SNAPSHOTS=1
+const UPDATE_SNAPSHOTS = process.env.UPDATE_SNAPSHOTS === "1";
+
+// Migrations are named after the generation time
+const CREATED_AT = new Date("2025-01-01T00:00:00.000Z");
+
+/**
+ * Read the files of a generated project, keyed by their path relative to
+ * the project, with its empty directories keyed by their path and a slash
+ */
+async function readProject(
+  projectDir: string
+): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+
+  const read = async (dir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(projectDir, dir), {
+      withFileTypes: true,
+    });
+    if (entries.length === 0) {
+      files[`${dir}/`] = "";
+    }
+    for (const entry of entries) {
+      const entryPath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await read(entryPath);
+      } else {
+        files[entryPath] = await fs.readFile(
+          path.join(projectDir, entryPath),
+          "utf8"
+        );
+      }
+    }
+  };
+  await read("");
+
+  return files;
+}
+
+/**
+ * Render the files of a project as a single snapshot, sorted by path
+ */
+function renderSnapshot(files: Record<string, string>): string {
+  return Object.keys(files)
+    .sort()
+    .map((filePath) => `===== ${filePath}\n${files[filePath]}`)
+    .join("\n");
+}
+
+/**
+ * Compare a snapshot with the committed one, or write it when updating
+ */
+async function matchSnapshot(
+  combination: Combination,
+  snapshot: string
+): Promise<void> {
+  const snapshotPath = getSnapshotPath(combination);
+
+  if (UPDATE_SNAPSHOTS) {
+    await fs.outputFile(snapshotPath, snapshot);
+    return;
+  }
+
+  if (!(await fs.pathExists(snapshotPath))) {
+    assert.fail(
+      `No snapshot for ${combination.id}, run \`npm run test:update\` to write it.`
+    );
+  }
+  const expected = await fs.readFile(snapshotPath, "utf8");
+  if (snapshot !== expected) {
+    assert.fail(
+      `The generated project differs from its snapshot, run \`npm run test:update\` if the change is expected:\n${createTwoFilesPatch(
+        `${combination.id}.snap`,
+        "generated",
+        expected,
+        snapshot
+      )}`
+    );
+  }
+}
+
+/**
+ * Get the source files whose imports follow other statements
+ */
+function findLateImports(files: Record<string, string>): string[] {
+  return Object.keys(files).filter((filePath) => {
+    if (!/\.(ts|js)$/.test(filePath)) {
+      return false;
+    }
+    const { statements } = ts.createSourceFile(
+      filePath,
+      files[filePath],
+      ts.ScriptTarget.Latest
+    );
+    const firstStatement = statements.findIndex(
+      (statement) => !ts.isImportDeclaration(statement)
+    );
+    return (
+      firstStatement !== -1 &&
+      statements.slice(firstStatement).some(ts.isImportDeclaration)
+    );
+  });
+}
+
+describe("generated projects", () => {
+  before(() => {
+    // Keep the progress messages of the generator out of the test report
+    mock.method(console, "log", () => {});
+    // The random secrets of .env are zeros in the snapshots
+    mock.method(crypto, "randomBytes", (size: number) => Buffer.alloc(size));
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  for (const combination of getCombinations()) {
+    it(combination.id, async () => {
+      const projectDir = await fs.mkdtemp(
+        path.join(os.tmpdir(), "rest-generate-")
+      );
+      try {
+        await generateProject(projectDir, combination.options, {}, CREATED_AT);
+        const files = await readProject(projectDir);
+
+        await matchSnapshot(combination, renderSnapshot(files));
+        assert.deepEqual(findLateImports(files), []);
+        assert.doesNotMatch(files[".env"], /^\w+_SECRET=your-.*-key$/m);
+        if (combination.options.language === "typescript") {
+          assert.deepEqual(typeCheckProject(projectDir), []);
+        }
+      } finally {
+        await fs.remove(projectDir);
+      }
+    });
+  }
+});
@@ -0,0 +1,121 @@
+import { fileURLToPath } from "url";
+import {
+  DATABASES,
+  FRAMEWORKS,
+  LANGUAGES,
+  ProjectOptions,
+} from "../../src/types/project.js";
+import { DATABASE_ORMS } from "../../src/utils/options.js";
+
+/**
+ * A set of project options the golden tests generate a project with
+ */
+export interface Combination {
+  /** Name of the snapshot, made of the options that differ */
+  id: string;
+  options: ProjectOptions;
+}
+
+/**
+ * Features and their settings, generated for every framework, database, ORM
+ * and language. Together they use every feature, authentication strategy,
+ * validation library and package manager.
+ */
+const PROFILES: {
+  id: string;
+  options: Pick<
+    ProjectOptions,
+    | "features"
+    | "authStrategy"
+    | "validationLibrary"
+    | "packageManager"
+    | "openapi"
+  >;
+}[] = [
+  { id: "minimal", options: { features: [], packageManager: "npm" } },
+  {
+    id: "jwt",
+    options: {
+      features: ["auth", "validation", "swagger", "docker", "tests"],
+      authStrategy: "jwt",
+      validationLibrary: "joi",
+      packageManager: "pnpm",
+    },
+  },
+  {
+    id: "session",
+    options: {
+      features: ["auth", "validation", "tests"],
+      authStrategy: "session",
+      validationLibrary: "zod",
+      packageManager: "yarn",
+    },
+  },
+  {
+    id: "oauth",
+    options: {
+      features: ["auth", "swagger", "docker", "tests"],
+      authStrategy: "oauth",
+      packageManager: "bun",
+    },
+  },
+  {
+    id: "openapi",
+    options: {
+      features: ["validation", "swagger", "tests"],
+      validationLibrary: "zod",
+      packageManager: "npm",
+      openapi: fileURLToPath(
+        new URL("../fixtures/petstore.yaml", import.meta.url)
+      ),
+    },
+  },
+];
+
+/**
+ * Enumerate the valid combinations of project options: every framework,
+ * language and database with each of its ORMs, with each profile of
+ * features. Fastify projects validate with JSON schemas, so they get no
+ * validation library.
+ */
+export function getCombinations(): Combination[] {
+  const combinations: Combination[] = [];
+
+  for (const framework of FRAMEWORKS) {
+    for (const database of DATABASES) {
+      for (const orm of DATABASE_ORMS[database]) {
+        for (const language of LANGUAGES) {
+          for (const profile of PROFILES) {
+            combinations.push({
+              id: [framework, database, orm, language, profile.id].join("-"),
+              options: {
+                name: "golden-api",
+                language,
+                framework,
+                database,
+                orm,
+                ...profile.options,
+                features: [...profile.options.features],
+                validationLibrary:
+                  framework === "fastify"
+                    ? undefined
+                    : profile.options.validationLibrary,
+              },
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return combinations;
+}
+
+/**
+ * Path of the snapshot of a combination
+ */
+export function getSnapshotPath(combination: Combination): string {
+  return fileURLToPath(
+    new URL(`../__snapshots__/${combination.id}.snap`, import.meta.url)
+  );
+}
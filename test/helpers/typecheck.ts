@@ -0,0 +1,323 @@
+import path from "path";
+import { builtinModules, createRequire } from "module";
+import ts from "typescript";
+
+// The Node.js types of the generator itself stand in for the ones the
+// generated projects install
+const require = createRequire(import.meta.url);
+const NODE_TYPES = path.dirname(
+  path.dirname(require.resolve("@types/node/package.json"))
+);
+
+// Type parameters of the stubbed types, enough for any of the packages
+const TYPE_PARAMETERS = "A = any, B = any, C = any, D = any, E = any";
+
+// Type of the values imported from packages: functions and classes taking
+// any type arguments, whose members are such values too. Classes can check
+// the type of values with instanceof.
+const UNTYPED_VALUE = `interface Untyped {
+  <${TYPE_PARAMETERS}>(...args: any[]): any;
+  new <${TYPE_PARAMETERS}>(...args: any[]): any;
+  [key: string]: Untyped;
+}`;
+
+// Functions typed by `any` (e.g. passed to what stubbed functions return)
+// get untyped parameters, and calls of `any` take no type arguments
+const UNTYPED_PARAMETER_CODES = new Set([7006, 7031]);
+const UNTYPED_TYPE_ARGUMENTS = 2347;
+
+// Library files are the same for every project, parsed once
+const libraryFiles = new Map<string, ts.SourceFile>();
+
+/**
+ * A name imported from a package
+ */
+interface ImportedName {
+  /** Members read from it as types (e.g. `infer` in `z.infer`) */
+  members: Set<string>;
+  /** Whether classes extend it, and inherit its static members */
+  extended: boolean;
+}
+
+/**
+ * Names imported from a package
+ */
+type PackageImports = Map<string, ImportedName>;
+
+/**
+ * Collect what the sources import from packages, which are not installed
+ * in the generated project
+ */
+function collectPackageImports(
+  files: ts.SourceFile[]
+): Map<string, PackageImports> {
+  const packages = new Map<string, PackageImports>();
+  const use = (name: string, imports: PackageImports) => {
+    let imported = imports.get(name);
+    if (!imported) {
+      imported = { members: new Set(), extended: false };
+      imports.set(name, imported);
+    }
+    return imported;
+  };
+
+  for (const file of files) {
+    // Local names of the imported bindings, with the name they are exported
+    // by, "*" for namespace imports
+    const bindings = new Map<string, [PackageImports, string]>();
+
+    for (const statement of file.statements) {
+      if (!(
+        ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)
+      )) {
+        continue;
+      }
+      const specifier = statement.moduleSpecifier;
+      if (!specifier || !ts.isStringLiteral(specifier)) {
+        continue;
+      }
+      // Relative imports are part of the project, Node.js modules are typed
+      if (
+        specifier.text.startsWith(".") ||
+        specifier.text.startsWith("node:") ||
+        builtinModules.includes(specifier.text)
+      ) {
+        continue;
+      }
+      let imports = packages.get(specifier.text);
+      if (!imports) {
+        imports = new Map();
+        packages.set(specifier.text, imports);
+      }
+
+      if (ts.isExportDeclaration(statement)) {
+        if (
+          statement.exportClause &&
+          ts.isNamedExports(statement.exportClause)
+        ) {
+          for (const element of statement.exportClause.elements) {
+            use((element.propertyName ?? element.name).text, imports);
+          }
+        }
+        continue;
+      }
+
+      const clause = statement.importClause;
+      if (clause?.name) {
+        use("default", imports);
+        bindings.set(clause.name.text, [imports, "default"]);
+      }
+      const named = clause?.namedBindings;
+      if (named && ts.isNamespaceImport(named)) {
+        bindings.set(named.name.text, [imports, "*"]);
+      } else if (named) {
+        for (const element of named.elements) {
+          const name = (element.propertyName ?? element.name).text;
+          use(name, imports);
+          bindings.set(element.name.text, [imports, name]);
+        }
+      }
+    }
+
+    // Members of namespace imports are exports of the package, members of
+    // other bindings read as types are members of their namespace
+    const visit = (node: ts.Node): void => {
+      if (ts.isHeritageClause(node)) {
+        for (const { expression } of node.types) {
+          const binding = ts.isIdentifier(expression)
+            ? bindings.get(expression.text)
+            : undefined;
+          if (binding && binding[1] !== "*") {
+            use(binding[1], binding[0]).extended = true;
+          }
+        }
+      }
+      const [left, right] = ts.isQualifiedName(node)
+        ? [node.left, node.right]
+        : ts.isPropertyAccessExpression(node)
+          ? [node.expression, node.name]
+          : [];
+      const binding =
+        left && ts.isIdentifier(left) ? bindings.get(left.text) : undefined;
+      if (binding && right) {
+        const [imports, name] = binding;
+        if (name === "*") {
+          use(right.text, imports);
+        } else if (ts.isQualifiedName(node)) {
+          use(name, imports).members.add(right.text);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(file);
+  }
+
+  return packages;
+}
+
+/**
+ * Render declarations of the packages the sources import, where everything
+ * they import is untyped, as a value, a type and a namespace
+ */
+function renderPackageStubs(packages: Map<string, PackageImports>): string {
+  const modules = [...packages].map(([specifier, imports]) => {
+    const declarations = [...imports].flatMap(([name, imported]) => {
+      // The default export is declared under another name and exported
+      const [local, modifier] =
+        name === "default" ? ["_default", ""] : [name, "export "];
+      const lines = [
+        `  ${modifier}const ${local}: ${imported.extended ? "any" : "Untyped"};`,
+        `  ${modifier}type ${local}<${TYPE_PARAMETERS}> = any;`,
+      ];
+      if (imported.members.size > 0) {
+        lines.push(
+          `  ${modifier}namespace ${local} {`,
+          ...[...imported.members].map(
+            (member) => `    type ${member}<${TYPE_PARAMETERS}> = any;`
+          ),
+          "  }"
+        );
+      }
+      if (name === "default") {
+        lines.push("  export default _default;");
+      }
+      return lines;
+    });
+    return `declare module '${specifier}' {\n${declarations.join("\n")}\n}`;
+  });
+
+  return [UNTYPED_VALUE, ...modules].join("\n");
+}
+
+/**
+ * Find the innermost node at a position of a source file
+ */
+function findNode(file: ts.SourceFile, position: number): ts.Node {
+  let node: ts.Node = file;
+  for (;;) {
+    const child = node
+      .getChildren(file)
+      .find(
+        (candidate) =>
+          candidate.getStart(file) <= position && position < candidate.end
+      );
+    if (!child) {
+      return node;
+    }
+    node = child;
+  }
+}
+
+/**
+ * Whether a diagnostic only comes from the packages being stubbed as `any`
+ */
+function isCausedByStubs(
+  diagnostic: ts.Diagnostic,
+  checker: ts.TypeChecker
+): boolean {
+  if (diagnostic.code === UNTYPED_TYPE_ARGUMENTS) {
+    return true;
+  }
+  if (
+    !UNTYPED_PARAMETER_CODES.has(diagnostic.code) ||
+    !diagnostic.file ||
+    diagnostic.start === undefined
+  ) {
+    return false;
+  }
+
+  // A parameter of a function typed by `any`, or passed to an untyped call
+  let node: ts.Node | undefined = findNode(diagnostic.file, diagnostic.start);
+  while (node && !ts.isFunctionLike(node)) {
+    node = node.parent;
+  }
+  if (!node || !(ts.isArrowFunction(node) || ts.isFunctionExpression(node))) {
+    return false;
+  }
+  // Properties of objects typed by `any` have no contextual type
+  let expression: ts.Expression = node;
+  while (
+    ts.isPropertyAssignment(expression.parent) &&
+    ts.isObjectLiteralExpression(expression.parent.parent)
+  ) {
+    expression = expression.parent.parent;
+  }
+  const contextualType = checker.getContextualType(expression);
+  const call = node.parent;
+  return Boolean(
+    (contextualType && contextualType.flags & ts.TypeFlags.Any) ||
+    ((ts.isCallExpression(call) || ts.isNewExpression(call)) &&
+      checker.getTypeAtLocation(call.expression).flags & ts.TypeFlags.Any)
+  );
+}
+
+/**
+ * Type-check the TypeScript sources of a generated project with its
+ * tsconfig.json. Its dependencies are not installed: every package it
+ * imports is declared with `any` types, so the check covers the generated
+ * code itself, not its use of the packages. Wrong arguments or members of a
+ * package, or a version whose types changed, are only caught by installing
+ * the project, as test/install.test.ts does before type-checking it again.
+ * @returns The formatted errors, empty when the sources compile
+ */
+export function typeCheckProject(projectDir: string): string[] {
+  const configFile = path.join(projectDir, "tsconfig.json");
+  const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (error) {
+    throw new Error(ts.flattenDiagnosticMessageText(error.messageText, "\n"));
+  }
+  const { options, fileNames } = ts.parseJsonConfigFileContent(
+    config,
+    ts.sys,
+    projectDir,
+    { noEmit: true, typeRoots: [NODE_TYPES], types: ["node"] },
+    configFile
+  );
+
+  const sources = fileNames.map((fileName) =>
+    ts.createSourceFile(
+      fileName,
+      ts.sys.readFile(fileName) ?? "",
+      ts.ScriptTarget.Latest,
+      true
+    )
+  );
+  const stubsFile = path.join(projectDir, "packages.d.ts");
+  const stubs = renderPackageStubs(collectPackageImports(sources));
+
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    if (fileName === stubsFile) {
+      return ts.createSourceFile(fileName, stubs, languageVersion);
+    }
+    if (fileName.startsWith(projectDir)) {
+      return getSourceFile(fileName, languageVersion, ...rest);
+    }
+    let file = libraryFiles.get(fileName);
+    if (!file) {
+      file = getSourceFile(fileName, languageVersion, ...rest);
+      if (file) {
+        libraryFiles.set(fileName, file);
+      }
+    }
+    return file;
+  };
+  const fileExists = host.fileExists;
+  host.fileExists = (fileName) =>
+    fileName === stubsFile || fileExists(fileName);
+
+  const program = ts.createProgram([...fileNames, stubsFile], options, host);
+  const checker = program.getTypeChecker();
+
+  return ts
+    .getPreEmitDiagnostics(program)
+    .filter((diagnostic) => !isCausedByStubs(diagnostic, checker))
+    .map((diagnostic) =>
+      ts.formatDiagnostic(diagnostic, {
+        getCanonicalFileName: (fileName) => fileName,
+        getCurrentDirectory: () => projectDir,
+        getNewLine: () => "\n",
+      })
+    );
+}
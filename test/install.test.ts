@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import { execFile } from "child_process";
+import { createRequire } from "module";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import fs from "fs-extra";
+import { generateProject } from "../src/utils/generator.js";
+import { getCombinations } from "./helpers/combinations.js";
+
+const execFilePromise = promisify(execFile);
+
+// JavaScript projects do not install TypeScript, so every project is
+// type-checked with the compiler of the generator
+const TSC = createRequire(import.meta.url).resolve("typescript/bin/tsc");
+
+// Combinations installed with INSTALL_TESTS=1: every framework, both
+// languages and every authentication strategy, without a database server or
+// a binary downloaded outside of the npm registry
+const DEFAULT_COMBINATIONS = [
+  "express-none-none-typescript-jwt",
+  "fastify-none-none-typescript-jwt",
+  "fastify-none-none-javascript-oauth",
+  "koa-none-none-javascript-session",
+];
+
+// Installing the dependencies of a project takes minutes, so the tests only
+// run when asked to, with INSTALL_TESTS=1 or a comma separated list of
+// combination ids (of the profiles with the tests feature)
+const INSTALL_TESTS = process.env.INSTALL_TESTS ?? "";
+const selected =
+  INSTALL_TESTS === "1"
+    ? DEFAULT_COMBINATIONS
+    : INSTALL_TESTS.split(",").filter(Boolean);
+
+/**
+ * Run a command in a project
+ * @throws With the output of the command if it fails
+ */
+async function run(
+  projectDir: string,
+  file: string,
+  args: string[]
+): Promise<void> {
+  try {
+    await execFilePromise(file, args, {
+      cwd: projectDir,
+      maxBuffer: 50 * 1024 * 1024,
+      env: { ...process.env, CI: "1" },
+    });
+  } catch (error) {
+    const { stdout, stderr, message } = error as {
+      stdout?: string;
+      stderr?: string;
+      message: string;
+    };
+    assert.fail(
+      `${path.basename(file)} ${args.join(" ")} failed: ${message}\n${stdout}${stderr}`
+    );
+  }
+}
+
+describe(
+  "installed projects",
+  { skip: selected.length === 0 && "set INSTALL_TESTS=1 to run them" },
+  () => {
+    const combinations = getCombinations();
+
+    before(() => {
+      // Keep the progress messages of the generator out of the test report
+      mock.method(console, "log", () => {});
+    });
+
+    after(() => {
+      mock.restoreAll();
+    });
+
+    for (const id of selected) {
+      it(id, { timeout: 15 * 60 * 1000 }, async () => {
+        const combination = combinations.find(
+          (candidate) => candidate.id === id
+        );
+        assert.ok(combination, `Unknown combination ${id}`);
+        const projectDir = await fs.mkdtemp(
+          path.join(os.tmpdir(), "rest-generate-")
+        );
+        try {
+          // Whichever package manager the profile uses, the project is
+          // installed with npm
+          await generateProject(projectDir, {
+            ...combination.options,
+            packageManager: "npm",
+          });
+          await run(projectDir, "npm", ["install", "--no-audit", "--no-fund"]);
+          // Unlike the golden tests, which stub the packages, the sources
+          // are checked against the types of the installed packages
+          await run(projectDir, process.execPath, [
+            TSC,
+            "--noEmit",
+            // Packages without types are not checked from their sources
+            "--maxNodeModuleJsDepth",
+            "0",
+            "--project",
+            combination.options.language === "typescript"
+              ? "tsconfig.json"
+              : "jsconfig.json",
+          ]);
+          await run(projectDir, "npm", ["test"]);
+        } finally {
+          await fs.remove(projectDir);
+        }
+      });
+    }
+  }
+);
@@ -0,0 +1,245 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  markConflicts,
+  mergeEnvFile,
+  mergeGeneratedChanges,
+  mergePackageJson,
+  mergeThreeWay,
+} from "../src/utils/merge.js";
+
+const LABEL = "rest-generate 2.0.0";
+
+/**
+ * Join lines into the content of a file
+ */
+function lines(...values: string[]): string {
+  return values.map((value) => `${value}\n`).join("");
+}
+
+describe("mergeThreeWay", () => {
+  const base = lines("import a;", "", "a();", "b();", "", "listen();");
+
+  it("keeps the changes made on either side", () => {
+    const current = lines(
+      "import a;",
+      "",
+      "a();",
+      "b();",
+      "mine();",
+      "",
+      "listen();"
+    );
+    const next = lines(
+      "import a;",
+      "import c;",
+      "",
+      "a();",
+      "b();",
+      "",
+      "listen();"
+    );
+
+    assert.deepEqual(mergeThreeWay(base, current, next, LABEL), {
+      content: lines(
+        "import a;",
+        "import c;",
+        "",
+        "a();",
+        "b();",
+        "mine();",
+        "",
+        "listen();"
+      ),
+      conflicts: 0,
+    });
+  });
+
+  it("keeps the content of the project when the generator did not change", () => {
+    const current = lines(
+      "import a;",
+      "import routes;",
+      "",
+      "a();",
+      "b();",
+      "routes();",
+      "",
+      "listen();"
+    );
+
+    assert.deepEqual(mergeThreeWay(base, current, base, LABEL), {
+      content: current,
+      conflicts: 0,
+    });
+  });
+
+  it("takes the generated content when the project did not change", () => {
+    const next = lines("import a;", "", "a();", "", "listen();");
+
+    assert.deepEqual(mergeThreeWay(base, base, next, LABEL), {
+      content: next,
+      conflicts: 0,
+    });
+  });
+
+  it("writes regions changed differently on both sides as conflicts", () => {
+    const current = lines("import a;", "", "a();", "mine();", "", "listen();");
+    const next = lines("import a;", "", "a();", "theirs();", "", "listen();");
+
+    assert.deepEqual(mergeThreeWay(base, current, next, LABEL), {
+      content: lines(
+        "import a;",
+        "",
+        "a();",
+        "<<<<<<< current",
+        "mine();",
+        "=======",
+        "theirs();",
+        `>>>>>>> ${LABEL}`,
+        "",
+        "listen();"
+      ),
+      conflicts: 1,
+    });
+  });
+});
+
+describe("markConflicts", () => {
+  it("writes every difference as a conflict", () => {
+    const current = lines("a();", "mine();", "c();");
+    const next = lines("a();", "c();", "theirs();");
+
+    assert.deepEqual(markConflicts(current, next, LABEL), {
+      content: lines(
+        "a();",
+        "<<<<<<< current",
+        "mine();",
+        "=======",
+        `>>>>>>> ${LABEL}`,
+        "c();",
+        "<<<<<<< current",
+        "=======",
+        "theirs();",
+        `>>>>>>> ${LABEL}`
+      ),
+      conflicts: 2,
+    });
+  });
+
+  it("does not change identical content", () => {
+    const content = lines("a();", "b();");
+
+    assert.deepEqual(markConflicts(content, content, LABEL), {
+      content,
+      conflicts: 0,
+    });
+  });
+});
+
+describe("mergeGeneratedChanges", () => {
+  const base = lines("a();", "b();", "c();", "d();", "e();");
+
+  it("applies the generated changes around the user's changes", () => {
+    const next = lines("a();", "b();", "c();", "d();", "e();", "f();");
+    const current = lines("mine();", "a();", "b();", "c();", "d();", "e();");
+
+    assert.equal(
+      mergeGeneratedChanges(base, next, current),
+      lines("mine();", "a();", "b();", "c();", "d();", "e();", "f();")
+    );
+  });
+
+  it("keeps the lines both sides inserted at the same point", () => {
+    const next = lines("a();", "b();", "auth();", "c();", "d();", "e();");
+    const current = lines(
+      "a();",
+      "b();",
+      "products();",
+      "c();",
+      "d();",
+      "e();"
+    );
+
+    assert.equal(
+      mergeGeneratedChanges(base, next, current),
+      lines("a();", "b();", "products();", "auth();", "c();", "d();", "e();")
+    );
+  });
+
+  it("returns null when the changes do not apply", () => {
+    const next = lines("a();", "b();", "theirs();", "d();", "e();");
+    const current = lines("x();", "y();", "mine();", "z();", "w();");
+
+    assert.equal(mergeGeneratedChanges(base, next, current), null);
+  });
+});
+
+describe("mergePackageJson", () => {
+  const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+  it("adds, updates and removes the dependencies the user did not change", () => {
+    const base = json({
+      dependencies: { express: "^4.0.0", cors: "^2.0.0", helmet: "^7.0.0" },
+    });
+    const next = json({
+      dependencies: { express: "^5.0.0", cors: "^2.1.0", zod: "^4.0.0" },
+    });
+    const current = json({
+      name: "app",
+      dependencies: { express: "^4.0.0", cors: "^2.0.5", helmet: "^7.0.0" },
+    });
+
+    assert.equal(
+      mergePackageJson(base, next, current),
+      json({
+        name: "app",
+        dependencies: { express: "^5.0.0", cors: "^2.0.5", zod: "^4.0.0" },
+      })
+    );
+  });
+
+  it("keeps the formatting of the project when nothing changes", () => {
+    const base = json({ scripts: { start: "node ." } });
+    const current = '{"name":"app","scripts":{"start":"node ."}}\n';
+
+    assert.equal(mergePackageJson(base, base, current), current);
+  });
+
+  it("returns null for a package.json that is not valid JSON", () => {
+    const base = json({});
+
+    assert.equal(mergePackageJson(base, base, "{"), null);
+  });
+});
+
+describe("mergeEnvFile", () => {
+  it("appends the added variables the project does not define", () => {
+    const base = lines("PORT=3000");
+    const next = lines(
+      "PORT=3000",
+      "# Authentication",
+      "JWT_SECRET=change-me",
+      "LOG_LEVEL=info"
+    );
+    const current = lines("PORT=8080", "LOG_LEVEL=debug");
+
+    assert.equal(
+      mergeEnvFile(base, next, current),
+      lines(
+        "PORT=8080",
+        "LOG_LEVEL=debug",
+        "",
+        "# Authentication",
+        "JWT_SECRET=change-me"
+      )
+    );
+  });
+
+  it("keeps the file when every added variable is defined", () => {
+    const base = lines("PORT=3000");
+    const next = lines("PORT=3000", "# Logging", "LOG_LEVEL=info");
+    const current = lines("PORT=3000", "LOG_LEVEL=debug");
+
+    assert.equal(mergeEnvFile(base, next, current), current);
+  });
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { generateResource } from "../src/commands/generate.js";
+import { upgradeProject } from "../src/commands/upgrade.js";
+import { generateProject } from "../src/utils/generator.js";
+import { initRepository } from "../src/utils/git.js";
+import {
+  hashContent,
+  MANIFEST_FILE,
+  ProjectManifest,
+  readManifest,
+  renderManifest,
+} from "../src/utils/manifest.js";
+import { parseFieldList } from "../src/utils/resource.js";
+import { ProjectOptions } from "../src/types/project.js";
+
+const OPTIONS: ProjectOptions = {
+  name: "shop",
+  language: "typescript",
+  framework: "koa",
+  database: "postgres",
+  orm: "prisma",
+  features: [],
+  packageManager: "npm",
+};
+
+// Files generate resource patches to register a resource
+const PATCHED_FILES = ["src/app.ts", "prisma/schema.prisma"];
+
+/**
+ * Change the manifest of a project
+ */
+async function updateManifest(
+  projectDir: string,
+  update: (manifest: ProjectManifest) => void | Promise<void>
+): Promise<void> {
+  const manifest = await readManifest(projectDir);
+  assert.ok(manifest);
+  await update(manifest);
+  await fs.writeFile(
+    path.join(projectDir, MANIFEST_FILE),
+    renderManifest(manifest)
+  );
+}
+
+/**
+ * Check that the registration of the product resource is still in the
+ * patched files
+ */
+async function assertProductRegistered(projectDir: string): Promise<void> {
+  const app = await fs.readFile(path.join(projectDir, "src/app.ts"), "utf8");
+  assert.match(app, /import productRoutes from/);
+  assert.match(app, /\/products/);
+  const schema = await fs.readFile(
+    path.join(projectDir, "prisma/schema.prisma"),
+    "utf8"
+  );
+  assert.match(schema, /^model Product \{/m);
+}
+
+describe("upgrade after generate resource", () => {
+  const cwd = process.cwd();
+  let projectDir: string;
+
+  beforeEach(async () => {
+    // Keep the progress messages out of the test report, and fail instead
+    // of exiting
+    mock.method(console, "log", () => {});
+    mock.method(console, "error", () => {});
+    mock.method(process, "exit", (code: number) => {
+      throw new Error(`process.exit(${code})`);
+    });
+    process.env.GIT_AUTHOR_NAME = "Test";
+    process.env.GIT_AUTHOR_EMAIL = "test@example.com";
+    process.env.GIT_COMMITTER_NAME = "Test";
+    process.env.GIT_COMMITTER_EMAIL = "test@example.com";
+
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), "rest-generate-"));
+    await generateProject(projectDir, OPTIONS);
+    await initRepository(projectDir, "Generate the project");
+    process.chdir(projectDir);
+    await generateResource("product", {
+      fields: parseFieldList("title:string"),
+    });
+  });
+
+  afterEach(async () => {
+    process.chdir(cwd);
+    mock.restoreAll();
+    await fs.remove(projectDir);
+  });
+
+  it("records the generated content of the patched files", async () => {
+    const manifest = await readManifest(projectDir);
+    assert.ok(manifest);
+    for (const filePath of PATCHED_FILES) {
+      const content = await fs.readFile(
+        path.join(projectDir, filePath),
+        "utf8"
+      );
+      assert.notEqual(manifest.files[filePath], hashContent(content));
+    }
+    assert.ok(manifest.files["src/controllers/product.controller.ts"]);
+  });
+
+  it("keeps the resource with the same version", async () => {
+    await upgradeProject();
+    await assertProductRegistered(projectDir);
+  });
+
+  it("keeps the resource when the manifest records the patched files", async () => {
+    // As recorded by the versions that hashed the files once patched
+    await updateManifest(projectDir, async (manifest) => {
+      for (const filePath of PATCHED_FILES) {
+        manifest.files[filePath] = hashContent(
+          await fs.readFile(path.join(projectDir, filePath), "utf8")
+        );
+      }
+    });
+
+    await upgradeProject();
+    await assertProductRegistered(projectDir);
+  });
+
+  it("keeps the resource when upgrading from another version", async () => {
+    await updateManifest(projectDir, (manifest) => {
+      manifest.version = "0.9.0";
+    });
+
+    await upgradeProject();
+    await assertProductRegistered(projectDir);
+  });
+});
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import {
+  maxSatisfying,
+  PACKAGE_VERSIONS,
+  resolveVersions,
+  satisfies,
+} from "../src/utils/versions.js";
+
+const REGISTRY = "http://registry.test/";
+
+describe("satisfies", () => {
+  it("matches the minor and patch releases of caret ranges", () => {
+    assert.equal(satisfies("1.2.3", "^1.2.3"), true);
+    assert.equal(satisfies("1.9.0", "^1.2.3"), true);
+    assert.equal(satisfies("1.2.2", "^1.2.3"), false);
+    assert.equal(satisfies("2.0.0", "^1.2.3"), false);
+  });
+
+  it("matches the patch releases of caret ranges on 0.x versions", () => {
+    assert.equal(satisfies("0.2.9", "^0.2.3"), true);
+    assert.equal(satisfies("0.3.0", "^0.2.3"), false);
+    assert.equal(satisfies("0.2.2", "^0.2.3"), false);
+  });
+
+  it("matches only the version of caret ranges on 0.0.x versions", () => {
+    assert.equal(satisfies("0.0.3", "^0.0.3"), true);
+    assert.equal(satisfies("0.0.4", "^0.0.3"), false);
+  });
+
+  it("matches the patch releases of tilde ranges", () => {
+    assert.equal(satisfies("1.2.9", "~1.2.3"), true);
+    assert.equal(satisfies("1.3.0", "~1.2.3"), false);
+    assert.equal(satisfies("1.2.2", "~1.2.3"), false);
+  });
+
+  it("matches only the version of exact ranges", () => {
+    assert.equal(satisfies("6.1.0", "6.1.0"), true);
+    assert.equal(satisfies("6.1.1", "6.1.0"), false);
+  });
+
+  it("does not match prereleases", () => {
+    assert.equal(satisfies("1.3.0-beta.1", "^1.2.3"), false);
+    assert.equal(satisfies("1.2.3-rc.1", "1.2.3-rc.1"), false);
+  });
+
+  it("supports every range of the generated projects", () => {
+    for (const [name, range] of Object.entries(PACKAGE_VERSIONS)) {
+      assert.equal(satisfies(range.replace(/^[\^~]/, ""), range), true, name);
+    }
+  });
+});
+
+describe("maxSatisfying", () => {
+  it("gets the highest release in the range", () => {
+    assert.equal(
+      maxSatisfying(
+        ["1.10.0", "1.2.3", "1.9.0", "2.0.0", "1.11.0-beta.0"],
+        "^1.2.3"
+      ),
+      "1.10.0"
+    );
+  });
+
+  it("returns null when no version is in the range", () => {
+    assert.equal(maxSatisfying(["1.0.0", "3.0.0"], "^2.0.0"), null);
+  });
+});
+
+describe("resolveVersions", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  /**
+   * Stub the registry with the versions published of each package
+   * @returns The URLs requested
+   */
+  const stubRegistry = (published: Record<string, string[]>): string[] => {
+    const requested: string[] = [];
+    mock.method(globalThis, "fetch", async (url: string) => {
+      requested.push(url);
+      const name = decodeURIComponent(url.slice(REGISTRY.length));
+      const versions = published[name];
+      return versions
+        ? Response.json({
+            versions: Object.fromEntries(versions.map((v) => [v, {}])),
+          })
+        : new Response("Not found", { status: 404 });
+    });
+    return requested;
+  };
+
+  it("resolves each package to the highest version in its range", async () => {
+    const requested = stubRegistry({
+      express: ["5.0.0", "5.2.1", "5.3.0", "6.0.0"],
+      "@fastify/swagger-ui": ["6.0.0", "6.1.0", "6.1.1"],
+    });
+
+    assert.deepEqual(
+      await resolveVersions(
+        { express: "^5.2.1", "@fastify/swagger-ui": "6.1.0" },
+        REGISTRY
+      ),
+      { express: "5.3.0", "@fastify/swagger-ui": "6.1.0" }
+    );
+    assert.deepEqual(requested, [
+      `${REGISTRY}express`,
+      `${REGISTRY}@fastify%2Fswagger-ui`,
+    ]);
+  });
+
+  it("fails when the registry has no version in the range", async () => {
+    stubRegistry({ express: ["4.21.2"] });
+
+    await assert.rejects(resolveVersions({ express: "^5.2.1" }, REGISTRY), {
+      message: `The registry ${REGISTRY} has no version of express matching ^5.2.1.`,
+    });
+  });
+
+  it("fails when the registry does not have the package", async () => {
+    stubRegistry({});
+
+    await assert.rejects(resolveVersions({ express: "^5.2.1" }, REGISTRY), {
+      message: `Could not get express from the registry ${REGISTRY} (HTTP 404).`,
+    });
+  });
+});